@@ -3,6 +3,9 @@ import * as crypto from 'crypto';
 import * as https from 'https';
 import * as querystring from 'querystring';
 import { TranslationCache } from './translation-cache';
+import { BaseTranslator, DictionaryEntry, TranslationError } from './translator';
+import { WorkspaceGlossary } from './glossary';
+import { toProviderLanguage } from './languages';
 
 /**
  * 百度翻译API配置接口
@@ -37,6 +40,12 @@ export const BAIDU_ERROR_CODES: {[key: string]: string} = {
   '90107': '认证未通过或未生效，请前往百度翻译开放平台查看认证进度'
 };
 
+/**
+ * 可切换到其他翻译API重试的百度翻译API错误码
+ * 包括请求超时、系统错误、访问频率受限和账户余额不足等与请求内容无关的错误
+ */
+export const BAIDU_RETRYABLE_ERROR_CODES: string[] = ['52001', '52002', '54003', '54004', '54005'];
+
 /**
  * 百度翻译API封装类
  * 
@@ -45,31 +54,30 @@ export const BAIDU_ERROR_CODES: {[key: string]: string} = {
  * 
  * 百度翻译API文档：https://fanyi-api.baidu.com/doc/21
  */
-export class BaiduTranslator {
+export class BaiduTranslator extends BaseTranslator {
+  public readonly id = 'baidu';
+  public readonly displayName = '百度翻译';
+  public readonly shortName = '百度';
+  public readonly apiName = '百度翻译API';
+  public readonly configSection = 'uliTranslation.baidu';
+  public readonly credentialHint = 'APPID和密钥';
+
   /**
    * 百度翻译API配置对象
    * 包含appid、key和salt三个属性
    */
   private config: BaiduTranslatorConfig;
-  
-  /**
-   * 翻译缓存实例
-   * 用于缓存翻译结果，减少API调用
-   */
-  public cache: TranslationCache | null = null;
-  
-  /**
-   * 上次缓存访问时间
-   */
-  private lastCacheAccessTime: number = 0;
 
   /**
    * 构造函数
    * 初始化配置对象并从VSCode设置中加载配置
    * 
-   * @param context 可选的扩展上下文，用于初始化缓存
+   * @param cache 可选的共享翻译缓存实例
+   * @param glossary 可选的工作区术语表实例
    */
-  constructor(context?: vscode.ExtensionContext) {
+  constructor(cache?: TranslationCache, glossary?: WorkspaceGlossary) {
+    super();
+
     // 初始化配置对象
     this.config = {
       appid: '', // 百度翻译API的APPID
@@ -80,9 +88,14 @@ export class BaiduTranslator {
     // 从VSCode设置中加载配置
     this.loadConfig();
     
-    // 如果提供了扩展上下文，初始化缓存
-    if (context) {
-      this.initCache(context);
+    // 如果提供了缓存实例，使用共享缓存
+    if (cache) {
+      this.setCache(cache);
+    }
+
+    // 如果提供了术语表实例，翻译时应用术语表
+    if (glossary) {
+      this.setGlossary(glossary);
     }
   }
 
@@ -90,9 +103,9 @@ export class BaiduTranslator {
    * 从VSCode配置中加载百度翻译API的配置
    * 读取用户在设置中配置的appid、key和salt
    */
-  private loadConfig(): void {
+  protected loadConfig(): void {
     // 获取VSCode中的配置项
-    const config = vscode.workspace.getConfiguration('uliTranslation.baidu');
+    const config = vscode.workspace.getConfiguration(this.configSection);
     
     // 将配置项加载到实例变量中
     this.config = {
@@ -101,36 +114,12 @@ export class BaiduTranslator {
       salt: config.get<string>('salt') || ''    // 可选的盐值，用于签名
     };
   }
-  
-  /**
-   * 初始化翻译缓存
-   * @param context 扩展上下文，用于持久化存储
-   * @param expirationDays 缓存过期天数，默认为3天
-   * @param maxCacheSizeMB 缓存大小限制（MB），默认为50MB
-   */
-  public initCache(context: vscode.ExtensionContext, expirationDays: number = 3, maxCacheSizeMB: number = 20): void {
-    // 创建缓存实例
-    this.cache = new TranslationCache(context, expirationDays, maxCacheSizeMB);
-    console.log(`翻译缓存已初始化，过期时间: ${expirationDays}天，缓存大小限制: ${maxCacheSizeMB}MB，当前缓存项数: ${this.cache.size()}`);
-  }
-  
-  /**
-   * 获取缓存性能指标
-   * @returns 缓存性能指标，如果缓存未初始化则返回null
-   */
-  public getCacheMetrics(): { hitRate: number; avgResponseTime: number; size: number } | null {
-    if (!this.cache) {
-      return null;
-    }
-    return this.cache.getMetrics();
-  }
 
   /**
-   * 重新加载配置
-   * 从VSCode设置中重新加载百度翻译API的配置
+   * 配置无效时抛出的错误信息
    */
-  public reloadConfig(): void {
-    this.loadConfig();
+  protected getInvalidConfigMessage(): string {
+    return '百度翻译API配置无效，请在设置中配置appid和key';
   }
 
   /**
@@ -147,9 +136,42 @@ export class BaiduTranslator {
   }
 
   /**
-   * 翻译文本
+   * 查询百度翻译的词典资源
+   * 请求时传入dict=1，百度翻译会在翻译结果中返回JSON格式的词典资源（音标、词性和释义），
+   * 未开通词典资源的账户不返回该字段
+   *
+   * @param text 要查询的单词或短语
+   * @param from 源语言（规范语言代码）
+   * @param to 目标语言（规范语言代码）
+   * @returns 词典释义，百度翻译没有返回词典资源时返回undefined
+   * @throws TranslationError 当配置无效时抛出错误
+   */
+  public async lookupDictionary(text: string, from: string, to: string): Promise<DictionaryEntry | undefined> {
+    this.loadConfig();
+    if (!this.isConfigValid()) {
+      throw new TranslationError(this.getInvalidConfigMessage(), this.id);
+    }
+    if (!this.supportsLanguagePair(from, to)) {
+      return undefined;
+    }
+
+    const salt = this.config.salt || Math.random().toString(36).substr(2);
+    const result = await this.request({
+      q: text,
+      from: toProviderLanguage(this.id, from),
+      to: toProviderLanguage(this.id, to),
+      appid: this.config.appid,
+      salt,
+      sign: this.generateSign(text, salt),
+      dict: 1
+    });
+    const dict = result.error_code ? undefined : result.trans_result[0]?.dict;
+    return dict ? parseDictionary(text, dict) : undefined;
+  }
+
+  /**
+   * 调用百度翻译API翻译文本
    * 
-   * 使用百度翻译API将文本从一种语言翻译为另一种语言
    * 遵循百度翻译API的签名和编码要求：
    * 1. 签名生成：MD5(appid+q+salt+密钥)，其中q为原始文本，不做URL编码
    * 2. 发送请求时，q参数需要做URL编码
@@ -158,75 +180,12 @@ export class BaiduTranslator {
    * 5. 多个query可以用\n连接，如 query='apple\norange\nbanana\npear'
    * 
    * @param text 要翻译的文本（UTF-8编码）
-   * @param from 源语言，默认为auto（自动检测）
-   * @param to 目标语言，默认为zh（中文）
-   * @param formatOption 可选的格式化选项，用于获取特定格式的缓存结果
+   * @param from 源语言
+   * @param to 目标语言
    * @returns 翻译结果
-   * @throws Error 当配置无效、文本过长或API请求失败时抛出错误
+   * @throws Error 当API请求失败时抛出错误
    */
-  public async translate(text: string, from: string = 'auto', to: string = 'zh', formatOption?: string): Promise<string> {
-    // 重新加载配置，确保使用最新的配置
-    this.loadConfig();
-
-    // 检查配置是否有效
-    if (!this.isConfigValid()) {
-      throw new Error('百度翻译API配置无效，请在设置中配置appid和key');
-    }
-
-    // 检查文本长度，百度翻译API要求单次请求不超过2000字符
-    if (text.length > 2000) {
-      throw new Error('翻译文本过长，请将文本长度控制在2000字符以内');
-    }
-    
-    // 检查缓存中是否有翻译结果
-    if (this.cache) {
-      const startTime = Date.now();
-      this.lastCacheAccessTime = startTime;
-      
-      // 如果提供了格式化选项，尝试获取特定格式的缓存结果
-      let cacheKey = text;
-      if (formatOption) {
-        cacheKey = `${text}|${formatOption}`;
-      }
-      
-      const cachedResult = this.cache.get(cacheKey, from, to);
-      if (cachedResult) {
-        const responseTime = Date.now() - startTime;
-        if (responseTime > 500) {
-          console.warn(`缓存响应时间过长: ${responseTime}ms，考虑清空缓存以提高性能`);
-          // 提示用户清空缓存
-          vscode.window.showWarningMessage(
-            `翻译缓存响应时间过长(${responseTime.toFixed(0)}ms)，影响使用体验。`, 
-            '清空缓存', 
-            '查看性能指标', 
-            '忽略'
-          ).then(selection => {
-            if (selection === '清空缓存') {
-              if (this.cache) {
-                this.cache.clear();
-                vscode.window.showInformationMessage('翻译缓存已清空，性能已恢复');
-              }
-            } else if (selection === '查看性能指标') {
-              vscode.commands.executeCommand('uli-translation.showCacheMetrics');
-            }
-          });
-        } else {
-          console.log(`使用缓存的翻译结果${formatOption ? `(${formatOption})` : ''}，响应时间: ${responseTime}ms`);
-        }
-        return cachedResult;
-      }
-      
-      // 如果有格式化选项但没有找到特定格式的缓存，尝试获取原始翻译结果
-      if (formatOption) {
-        const originalCachedResult = this.cache.get(text, from, to);
-        if (originalCachedResult) {
-          console.log(`找到原始翻译缓存，但未找到${formatOption}格式的缓存`);
-          // 返回原始结果，让调用方进行格式化
-          return originalCachedResult;
-        }
-      }
-    }
-
+  protected async requestTranslation(text: string, from: string, to: string): Promise<string> {
     // 如果没有设置salt，则使用随机数
     // salt是签名过程中使用的随机字符串，可以在设置中固定，也可以随机生成
     const salt = this.config.salt || Math.random().toString(36).substr(2);
@@ -258,26 +217,28 @@ export class BaiduTranslator {
       // 检查是否有错误码
       if (result.error_code) {
         // 使用导出的错误码常量获取错误信息
-        const errorMessage = BAIDU_ERROR_CODES[result.error_code] || result.error_msg || '未知错误';
-        throw new Error(`翻译失败: ${errorMessage} (错误码: ${result.error_code})`);
+        const errorCode = String(result.error_code);
+        const errorMessage = BAIDU_ERROR_CODES[errorCode] || result.error_msg || '未知错误';
+        throw new TranslationError(
+          `翻译失败: ${errorMessage} (错误码: ${errorCode})`,
+          this.id,
+          errorCode,
+          BAIDU_RETRYABLE_ERROR_CODES.includes(errorCode)
+        );
       }
       
       // 处理翻译结果，将多行结果合并
-      const translatedText = result.trans_result.map((item: any) => item.dst).join('\n');
-      
-      // 将翻译结果存入缓存
-      if (this.cache) {
-        this.cache.set(text, translatedText, from, to);
-        console.log('翻译结果已缓存');
-      }
-      
-      return translatedText;
+      return result.trans_result.map((item: any) => item.dst).join('\n');
     } catch (error) {
       // 重新抛出错误，保留原始错误信息
-      if (error instanceof Error) {
+      if (error instanceof TranslationError) {
         throw error;
       }
-      throw new Error('翻译请求失败');
+      // 网络异常、超时等请求错误可以切换到其他翻译API重试
+      if (error instanceof Error) {
+        throw new TranslationError(error.message, this.id, undefined, true);
+      }
+      throw new TranslationError('翻译请求失败', this.id, undefined, true);
     }
   }
 
@@ -397,4 +358,49 @@ export class BaiduTranslator {
       req.end();
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 解析百度翻译返回的词典资源
+ * 英文单词的释义为字符串，中文词语的释义为包含text字段的对象
+ *
+ * @param word 查询的单词或短语
+ * @param dict 百度翻译返回的JSON格式词典资源
+ * @returns 词典释义，无法解析或没有释义时返回undefined
+ */
+function parseDictionary(word: string, dict: string): DictionaryEntry | undefined {
+  let data: any;
+  try {
+    data = JSON.parse(dict);
+  } catch (error) {
+    console.warn(`解析百度翻译词典资源失败: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+
+  const symbol = data?.word_result?.simple_means?.symbols?.[0];
+  if (!symbol) {
+    return undefined;
+  }
+
+  const phonetics: DictionaryEntry['phonetics'] = [];
+  if (symbol.ph_en) {
+    phonetics.push({ label: '英', value: symbol.ph_en });
+  }
+  if (symbol.ph_am) {
+    phonetics.push({ label: '美', value: symbol.ph_am });
+  }
+  if (symbol.word_symbol) {
+    phonetics.push({ label: '拼音', value: symbol.word_symbol });
+  }
+
+  const meanings: DictionaryEntry['meanings'] = (symbol.parts ?? [])
+    .map((part: any) => ({
+      partOfSpeech: part.part || part.part_name || '',
+      definitions: (part.means ?? [])
+        .map((mean: any) => (typeof mean === 'string' ? mean : mean?.text ?? ''))
+        .filter((definition: string) => definition)
+    }))
+    .filter((meaning: DictionaryEntry['meanings'][number]) => meaning.definitions.length > 0);
+
+  return phonetics.length > 0 || meanings.length > 0 ? { word, phonetics, meanings } : undefined;
+}
@@ -0,0 +1,267 @@
+/**
+ * 翻译缓存持久化存储模块
+ *
+ * 该模块将缓存以追加写入的日志文件（每行一条JSON记录）保存在扩展的globalStorageUri目录下，
+ * 写入操作先进入内存队列，由定时器批量追加到文件，避免每次翻译都重写整个缓存；
+ * 日志中的过期记录超过一定比例时重写为快照，文件损坏时备份原文件并从可读取的记录中恢复
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 日志记录
+ * set表示写入或更新缓存项，delete表示删除缓存项
+ */
+type JournalRecord<T> =
+  | { op: 'set'; key: string; item: T }
+  | { op: 'delete'; key: string };
+
+/**
+ * 缓存加载结果
+ *
+ * @property entries - 按写入顺序恢复的缓存项
+ * @property corruptLines - 无法解析而被跳过的记录数
+ */
+export interface CacheLoadResult<T> {
+  entries: Map<string, T>;
+  corruptLines: number;
+}
+
+/**
+ * 缓存持久化存储类
+ * 负责缓存日志文件的读取、批量追加写入、压缩重写和损坏恢复
+ */
+export class CacheStore<T> {
+  // 等待写入文件的日志行
+  private pending: string[] = [];
+  // 批量写入定时器
+  private flushTimer: NodeJS.Timeout | undefined;
+  // 日志文件当前大小（字节），包含尚未写入的日志行
+  private journalSize: number = 0;
+
+  /**
+   * 构造函数
+   * @param filePath 日志文件路径
+   * @param flushDelay 批量写入的延迟时间（毫秒），默认为500ms
+   */
+  constructor(private readonly filePath: string, private readonly flushDelay: number = 500) {}
+
+  /**
+   * 获取日志文件当前大小
+   * @returns 日志文件大小（字节）
+   */
+  public getJournalSize(): number {
+    return this.journalSize;
+  }
+
+  /**
+   * 检查日志文件是否存在
+   * @returns 日志文件是否存在
+   */
+  public exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  /**
+   * 从日志文件加载缓存
+   *
+   * 按顺序回放日志记录得到最新的缓存内容，无法解析的记录会被跳过；
+   * 存在损坏记录时将原文件备份为.corrupt文件，并用恢复出的缓存重写日志
+   *
+   * @returns 缓存加载结果
+   */
+  public load(): CacheLoadResult<T> {
+    const entries = new Map<string, T>();
+    let corruptLines = 0;
+
+    if (!this.exists()) {
+      return { entries, corruptLines };
+    }
+
+    let content: string;
+    try {
+      content = fs.readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      console.error('读取翻译缓存文件失败:', error);
+      this.backupCorruptFile();
+      this.clear();
+      return { entries, corruptLines: 1 };
+    }
+
+    this.journalSize = Buffer.byteLength(content, 'utf8');
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const record = JSON.parse(line) as JournalRecord<T>;
+        switch (record.op) {
+          case 'set':
+            // 先删除再写入，使Map的迭代顺序与最近写入顺序一致
+            entries.delete(record.key);
+            entries.set(record.key, record.item);
+            break;
+          case 'delete':
+            entries.delete(record.key);
+            break;
+          default:
+            corruptLines++;
+        }
+      } catch {
+        // 进程退出时可能留下写了一半的最后一行，跳过无法解析的记录
+        corruptLines++;
+      }
+    }
+
+    if (corruptLines > 0) {
+      console.warn(`翻译缓存文件中有${corruptLines}条记录无法解析，已从其余记录恢复缓存`);
+      this.backupCorruptFile();
+      this.compact(entries.entries());
+    }
+
+    return { entries, corruptLines };
+  }
+
+  /**
+   * 计算缓存项写入日志文件后的实际大小
+   * @param key 缓存键
+   * @param item 缓存项
+   * @returns 日志行的字节数
+   */
+  public measure(key: string, item: T): number {
+    return Buffer.byteLength(this.serialize({ op: 'set', key, item }), 'utf8');
+  }
+
+  /**
+   * 记录写入或更新缓存项
+   * @param key 缓存键
+   * @param item 缓存项
+   */
+  public recordSet(key: string, item: T): void {
+    this.append({ op: 'set', key, item });
+  }
+
+  /**
+   * 记录删除缓存项
+   * @param key 缓存键
+   */
+  public recordDelete(key: string): void {
+    this.append({ op: 'delete', key });
+  }
+
+  /**
+   * 清空日志文件
+   * 丢弃尚未写入的日志行并将文件截断为空
+   */
+  public clear(): void {
+    this.cancelFlush();
+    this.pending = [];
+    this.writeSnapshot('');
+  }
+
+  /**
+   * 将缓存快照重写为新的日志文件
+   * 先写入临时文件再重命名，避免重写过程中退出导致文件损坏
+   *
+   * @param entries 当前所有缓存项
+   */
+  public compact(entries: Iterable<[string, T]>): void {
+    this.cancelFlush();
+    this.pending = [];
+    const lines: string[] = [];
+    for (const [key, item] of entries) {
+      lines.push(this.serialize({ op: 'set', key, item }));
+    }
+    this.writeSnapshot(lines.join(''));
+  }
+
+  /**
+   * 立即将尚未写入的日志行同步追加到文件
+   * 插件停用时调用，保证最后一批翻译结果不会丢失
+   */
+  public flush(): void {
+    this.cancelFlush();
+    if (this.pending.length === 0) {
+      return;
+    }
+    const data = this.pending.join('');
+    this.pending = [];
+    try {
+      this.ensureDirectory();
+      fs.appendFileSync(this.filePath, data, 'utf8');
+    } catch (error) {
+      console.error('写入翻译缓存文件失败:', error);
+    }
+  }
+
+  /**
+   * 将日志记录加入写入队列，并安排批量写入
+   * @param record 日志记录
+   */
+  private append(record: JournalRecord<T>): void {
+    const line = this.serialize(record);
+    this.pending.push(line);
+    this.journalSize += Buffer.byteLength(line, 'utf8');
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.flushDelay);
+    }
+  }
+
+  /**
+   * 序列化日志记录
+   * @param record 日志记录
+   * @returns 以换行结尾的日志行
+   */
+  private serialize(record: JournalRecord<T>): string {
+    return `${JSON.stringify(record)}\n`;
+  }
+
+  /**
+   * 取消批量写入定时器
+   */
+  private cancelFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  /**
+   * 用给定内容替换日志文件
+   * @param content 新的日志文件内容
+   */
+  private writeSnapshot(content: string): void {
+    const tempPath = `${this.filePath}.tmp`;
+    try {
+      this.ensureDirectory();
+      fs.writeFileSync(tempPath, content, 'utf8');
+      fs.renameSync(tempPath, this.filePath);
+      this.journalSize = Buffer.byteLength(content, 'utf8');
+    } catch (error) {
+      console.error('重写翻译缓存文件失败:', error);
+    }
+  }
+
+  /**
+   * 将损坏的日志文件备份为.corrupt文件，便于排查问题
+   */
+  private backupCorruptFile(): void {
+    try {
+      fs.copyFileSync(this.filePath, `${this.filePath}.corrupt`);
+    } catch (error) {
+      console.error('备份损坏的翻译缓存文件失败:', error);
+    }
+  }
+
+  /**
+   * 确保日志文件所在目录存在
+   */
+  private ensureDirectory(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+  }
+}
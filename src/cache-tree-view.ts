@@ -0,0 +1,253 @@
+/**
+ * 翻译缓存浏览器模块
+ *
+ * 该模块在活动栏的ULI Translation视图中以树形列表展示翻译缓存，
+ * 支持搜索、删除缓存条目，以及手动修正机器翻译的结果
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { CacheEntry, TranslationCache } from './translation-cache';
+import { TranslatorRegistry } from './translator-registry';
+
+/**
+ * 列表最多显示的缓存条目数量，超出时提示用户搜索
+ */
+const MAX_VISIBLE_ENTRIES = 1000;
+
+/**
+ * 格式化缓存条目的存在时间
+ * @param timestamp 缓存创建时间戳
+ * @returns 人类可读的时间描述，如“3分钟前”
+ */
+export function formatAge(timestamp: number): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - timestamp) / 1000));
+  if (seconds < 60) {
+    return '刚刚';
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}分钟前`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}小时前`;
+  }
+  return `${Math.floor(hours / 24)}天前`;
+}
+
+/**
+ * 将多行文本压缩为单行，用于树节点的标签
+ * @param text 原始文本
+ * @returns 单行文本
+ */
+export function toSingleLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ⏎ ');
+}
+
+/**
+ * 翻译缓存树节点
+ */
+export class CacheTreeItem extends vscode.TreeItem {
+  /**
+   * 构造函数
+   * @param entry 缓存条目
+   * @param providerName 给出翻译结果的翻译器显示名称
+   */
+  constructor(public readonly entry: CacheEntry, providerName: string) {
+    super(toSingleLine(entry.text), vscode.TreeItemCollapsibleState.None);
+
+    this.description = `${toSingleLine(entry.result)} · ${entry.from}→${entry.to} · ${providerName} · ${formatAge(entry.timestamp)}`;
+    this.contextValue = entry.override ? 'cacheEntryOverride' : 'cacheEntry';
+    this.iconPath = new vscode.ThemeIcon(entry.override ? 'edit' : 'symbol-text');
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown('**原文**\n\n');
+    tooltip.appendCodeblock(entry.text, 'text');
+    tooltip.appendMarkdown('**译文**\n\n');
+    tooltip.appendCodeblock(entry.result, 'text');
+    tooltip.appendText(`语言: ${entry.from} → ${entry.to}\n翻译API: ${providerName}\n缓存时间: ${new Date(entry.timestamp).toLocaleString()}`);
+    if (entry.override) {
+      tooltip.appendText('\n已手动修正，永不过期');
+    }
+    this.tooltip = tooltip;
+  }
+}
+
+/**
+ * 翻译缓存树数据提供者
+ * 缓存内容变化时自动刷新列表
+ */
+export class CacheTreeDataProvider implements vscode.TreeDataProvider<CacheTreeItem>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData: vscode.Event<void> = this.changeEmitter.event;
+
+  // 当前的搜索关键词
+  private filter: string = '';
+  // 树视图，用于显示搜索和截断提示
+  private view: vscode.TreeView<CacheTreeItem> | undefined;
+  // 缓存变化监听
+  private readonly cacheListener: vscode.Disposable;
+
+  /**
+   * 构造函数
+   * @param cache 翻译缓存
+   * @param registry 翻译器注册表，用于显示翻译器名称
+   */
+  constructor(private readonly cache: TranslationCache, private readonly registry: TranslatorRegistry) {
+    this.cacheListener = cache.onDidChange(() => this.refresh());
+  }
+
+  /**
+   * 绑定树视图
+   * @param view 树视图
+   */
+  public attach(view: vscode.TreeView<CacheTreeItem>): void {
+    this.view = view;
+  }
+
+  /**
+   * 获取当前的搜索关键词
+   * @returns 搜索关键词
+   */
+  public getFilter(): string {
+    return this.filter;
+  }
+
+  /**
+   * 设置搜索关键词
+   * 按原文或译文匹配，不区分大小写
+   *
+   * @param filter 搜索关键词，为空时显示全部缓存
+   */
+  public setFilter(filter: string): void {
+    this.filter = filter.trim();
+    vscode.commands.executeCommand('setContext', 'uliTranslation.cacheFilterActive', !!this.filter);
+    this.refresh();
+  }
+
+  /**
+   * 刷新列表
+   */
+  public refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  public getTreeItem(element: CacheTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  public getChildren(element?: CacheTreeItem): CacheTreeItem[] {
+    if (element) {
+      return [];
+    }
+
+    const keyword = this.filter.toLowerCase();
+    const entries = this.cache
+      .getEntries()
+      .filter(entry =>
+        !keyword ||
+        entry.text.toLowerCase().includes(keyword) ||
+        entry.result.toLowerCase().includes(keyword)
+      )
+      // 手动修正的翻译排在最前，其余按缓存时间从新到旧排列
+      .sort((a, b) => Number(!!b.override) - Number(!!a.override) || b.timestamp - a.timestamp);
+
+    if (this.view) {
+      const messages: string[] = [];
+      if (this.filter) {
+        messages.push(`搜索“${this.filter}”：共${entries.length}条`);
+      }
+      if (entries.length > MAX_VISIBLE_ENTRIES) {
+        messages.push(`仅显示最新的${MAX_VISIBLE_ENTRIES}条，请使用搜索缩小范围`);
+      }
+      this.view.message = messages.length > 0 ? messages.join('，') : undefined;
+    }
+
+    return entries
+      .slice(0, MAX_VISIBLE_ENTRIES)
+      .map(entry => new CacheTreeItem(entry, this.registry.get(entry.provider)?.displayName ?? entry.provider));
+  }
+
+  public dispose(): void {
+    this.cacheListener.dispose();
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * 注册翻译缓存浏览器视图及其命令
+ *
+ * @param context 扩展上下文，用于注册命令和管理资源
+ * @param cache 翻译缓存
+ * @param registry 翻译器注册表
+ */
+export function registerCacheBrowser(
+  context: vscode.ExtensionContext,
+  cache: TranslationCache,
+  registry: TranslatorRegistry
+): void {
+  const provider = new CacheTreeDataProvider(cache, registry);
+  const view = vscode.window.createTreeView('uliTranslation.cacheView', {
+    treeDataProvider: provider,
+    showCollapseAll: false
+  });
+  provider.attach(view);
+
+  context.subscriptions.push(
+    provider,
+    view,
+
+    // 搜索缓存
+    vscode.commands.registerCommand('uli-translation.cache.search', async () => {
+      const keyword = await vscode.window.showInputBox({
+        title: '搜索翻译缓存',
+        prompt: '按原文或译文搜索，留空显示全部缓存',
+        value: provider.getFilter()
+      });
+      if (keyword !== undefined) {
+        provider.setFilter(keyword);
+      }
+    }),
+
+    // 清除搜索条件
+    vscode.commands.registerCommand('uli-translation.cache.clearSearch', () => {
+      provider.setFilter('');
+    }),
+
+    // 刷新列表
+    vscode.commands.registerCommand('uli-translation.cache.refresh', () => {
+      provider.refresh();
+    }),
+
+    // 删除缓存条目
+    vscode.commands.registerCommand('uli-translation.cache.deleteEntry', (item?: CacheTreeItem) => {
+      if (!item) {
+        return;
+      }
+      if (cache.delete(item.entry)) {
+        vscode.window.showInformationMessage(`已删除「${item.entry.text}」的翻译缓存`);
+      }
+    }),
+
+    // 手动修正翻译结果
+    vscode.commands.registerCommand('uli-translation.cache.editEntry', async (item?: CacheTreeItem) => {
+      if (!item) {
+        return;
+      }
+      const result = await vscode.window.showInputBox({
+        title: `修正「${item.entry.text}」的翻译`,
+        prompt: '修正后的翻译会优先于所有翻译API的结果使用，永不过期，清空缓存时也会保留',
+        value: item.entry.result,
+        validateInput: value => (value.trim() ? undefined : '翻译结果不能为空')
+      });
+      if (result === undefined) {
+        return;
+      }
+      cache.override(item.entry, result.trim());
+      vscode.window.showInformationMessage(`已修正「${item.entry.text}」的翻译为: ${result.trim()}`);
+    })
+  );
+}
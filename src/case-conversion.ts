@@ -0,0 +1,236 @@
+/**
+ * 命名格式转换模块
+ *
+ * 不经过翻译，直接在命名格式之间转换选中的标识符（如将camelCase转换为snake_case），
+ * 不需要配置翻译API，可以离线使用。选择命名格式时在编辑器中预览转换结果；
+ * 也可以选择用户定义的命名模板；循环转换命令按设置的顺序依次切换命名格式。所有命令都作用于每个选择区域（多光标）
+ *
+ * @author uli
+ * @version 1.1.0
+ */
+
+import * as vscode from 'vscode';
+import { getSelectionRanges } from './format-commands';
+import { getNamingFormat, getPreferredFormatAt, sortByPreference } from './naming-conventions';
+import { getTemplateFormats } from './naming-templates';
+import { NAMING_FORMATS, NamingFormat } from './utils';
+
+/**
+ * 默认的循环转换顺序
+ */
+const DEFAULT_CYCLE = ['camelCase', 'PascalCase', 'snake_case', 'CONSTANT_CASE', 'kebab-case'];
+
+/**
+ * 命名格式选项
+ */
+interface CaseFormatItem extends vscode.QuickPickItem {
+  namingFormat: NamingFormat;
+}
+
+/**
+ * 命名格式转换器
+ */
+export class CaseConverter implements vscode.Disposable {
+  // 在原文上显示删除线，并在其后显示转换结果
+  private readonly previewDecoration = vscode.window.createTextEditorDecorationType({
+    textDecoration: 'line-through',
+    after: {
+      color: new vscode.ThemeColor('editorCodeLens.foreground'),
+      fontStyle: 'italic',
+      margin: '0 0 0 0.5em'
+    }
+  });
+
+  // 上一次循环转换后的文档状态，文档没有其他修改时按上次的命名格式继续循环
+  private lastCycle: { uri: string; version: number; index: number } | undefined;
+
+  /**
+   * 获取要转换的范围，忽略空白的选择区域
+   * @param editor 编辑器
+   * @returns 要转换的范围，没有时提示用户并返回空数组
+   */
+  private getRanges(editor: vscode.TextEditor): vscode.Range[] {
+    const ranges = getSelectionRanges(editor).filter(range => editor.document.getText(range).trim());
+    if (ranges.length === 0) {
+      vscode.window.showInformationMessage('请先选择要转换的标识符');
+    }
+    return ranges;
+  }
+
+  /**
+   * 在编辑器中预览转换结果
+   * @param editor 编辑器
+   * @param ranges 要转换的范围
+   * @param namingFormat 命名格式，为undefined时清除预览
+   */
+  private showPreview(editor: vscode.TextEditor, ranges: vscode.Range[], namingFormat: NamingFormat | undefined): void {
+    const decorations: vscode.DecorationOptions[] = namingFormat
+      ? ranges.map(range => ({
+        range,
+        renderOptions: { after: { contentText: `→ ${namingFormat.format(editor.document.getText(range))}` } }
+      }))
+      : [];
+    editor.setDecorations(this.previewDecoration, decorations);
+  }
+
+  /**
+   * 将所有范围转换为指定的命名格式，并选中转换后的文本
+   * @param editor 编辑器
+   * @param ranges 要转换的范围，按在文档中的位置排列
+   * @param namingFormat 命名格式
+   * @returns 是否有文本被修改
+   */
+  private async apply(editor: vscode.TextEditor, ranges: vscode.Range[], namingFormat: NamingFormat): Promise<boolean> {
+    const document = editor.document;
+    const replacements = ranges.map(range => {
+      const text = document.getText(range);
+      return { range, text, result: namingFormat.format(text) };
+    });
+    if (replacements.every(item => item.result === item.text)) {
+      return false;
+    }
+
+    // 记录每个范围转换后的起始偏移量，前面的替换会改变后面的位置
+    let delta = 0;
+    const offsets = replacements.map(item => {
+      const start = document.offsetAt(item.range.start) + delta;
+      delta += item.result.length - item.text.length;
+      return { start, end: start + item.result.length };
+    });
+
+    const success = await editor.edit(editBuilder => {
+      for (const item of replacements) {
+        if (item.result !== item.text) {
+          editBuilder.replace(item.range, item.result);
+        }
+      }
+    });
+    if (!success) {
+      vscode.window.showErrorMessage('转换命名格式失败');
+      return false;
+    }
+
+    editor.selections = offsets.map(offset =>
+      new vscode.Selection(document.positionAt(offset.start), document.positionAt(offset.end)));
+    return true;
+  }
+
+  /**
+   * 让用户选择命名格式后转换所有选中的标识符
+   * 选项中显示转换结果，切换选项时在编辑器中预览
+   */
+  public async convertCase(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showInformationMessage('没有打开的编辑器');
+      return;
+    }
+    const ranges = this.getRanges(editor);
+    if (ranges.length === 0) {
+      return;
+    }
+
+    const first = editor.document.getText(ranges[0]);
+    const preferred = getPreferredFormatAt(editor.document, ranges[0].start);
+    const quickPick = vscode.window.createQuickPick<CaseFormatItem>();
+    quickPick.title = ranges.length > 1 ? `转换${ranges.length}处选中文本的命名格式` : `转换「${first}」的命名格式`;
+    quickPick.placeholder = '选择命名格式，编辑器中会预览转换结果';
+    quickPick.matchOnDescription = true;
+    // 用户定义的命名模板排在推荐的命名格式之后
+    const [preferredFormat, ...otherFormats] = sortByPreference(NAMING_FORMATS, preferred);
+    const templateFormats = getTemplateFormats(editor.document.languageId);
+    quickPick.items = [preferredFormat, ...templateFormats, ...otherFormats].map(namingFormat => ({
+      label: namingFormat.label,
+      description: `${namingFormat === preferred ? '（推荐）' : ''}${
+        templateFormats.includes(namingFormat) ? '（命名模板）' : ''
+      }${namingFormat.format(first)}${
+        ranges.length > 1 ? ` 等${ranges.length}处` : ''
+      }`,
+      namingFormat
+    }));
+
+    const selected = await new Promise<CaseFormatItem | undefined>(resolve => {
+      quickPick.onDidChangeActive(items => this.showPreview(editor, ranges, items[0]?.namingFormat));
+      quickPick.onDidAccept(() => {
+        resolve(quickPick.selectedItems[0]);
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        resolve(undefined);
+        quickPick.dispose();
+      });
+      quickPick.show();
+    });
+    this.showPreview(editor, ranges, undefined);
+
+    if (selected) {
+      await this.apply(editor, ranges, selected.namingFormat);
+    }
+  }
+
+  /**
+   * 按uliTranslation.caseConversion.cycle设置的顺序，将所有选中的标识符切换为下一种命名格式
+   *
+   * 第一次转换时根据第一个标识符识别当前的命名格式；连续转换且文档没有其他修改时，按上次的命名格式继续循环。
+   * 跳过不会改变任何标识符的命名格式（如单个小写单词的camelCase和snake_case）
+   */
+  public async cycleCase(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showInformationMessage('没有打开的编辑器');
+      return;
+    }
+    const ranges = this.getRanges(editor);
+    if (ranges.length === 0) {
+      return;
+    }
+
+    const ids = vscode.workspace.getConfiguration('uliTranslation.caseConversion').get<string[]>('cycle', DEFAULT_CYCLE);
+    let cycle = ids.map(id => getNamingFormat(id)).filter((namingFormat): namingFormat is NamingFormat => !!namingFormat);
+    if (cycle.length < 2) {
+      cycle = DEFAULT_CYCLE.map(id => getNamingFormat(id)!);
+    }
+
+    const document = editor.document;
+    const texts = ranges.map(range => document.getText(range));
+    const continuing = this.lastCycle?.uri === document.uri.toString() && this.lastCycle.version === document.version;
+    const current = continuing
+      ? this.lastCycle!.index
+      : cycle.findIndex(namingFormat => namingFormat.format(texts[0]) === texts[0]);
+
+    let index = -1;
+    for (let step = 1; step <= cycle.length && index < 0; step++) {
+      const candidate = (current + step + cycle.length) % cycle.length;
+      if (texts.some(text => cycle[candidate].format(text) !== text)) {
+        index = candidate;
+      }
+    }
+    if (index < 0) {
+      vscode.window.setStatusBarMessage('选中的标识符没有可以切换的命名格式', 2000);
+      return;
+    }
+
+    if (await this.apply(editor, ranges, cycle[index])) {
+      this.lastCycle = { uri: document.uri.toString(), version: document.version, index };
+      vscode.window.setStatusBarMessage(`命名格式: ${cycle[index].label}`, 2000);
+    }
+  }
+
+  public dispose(): void {
+    this.previewDecoration.dispose();
+  }
+}
+
+/**
+ * 注册命名格式转换命令
+ *
+ * @param context 扩展上下文，用于注册命令和管理资源
+ */
+export function registerCaseConversion(context: vscode.ExtensionContext): void {
+  const converter = new CaseConverter();
+  context.subscriptions.push(
+    converter,
+    vscode.commands.registerCommand('uli-translation.convertCase', () => converter.convertCase()),
+    vscode.commands.registerCommand('uli-translation.cycleCase', () => converter.cycleCase())
+  );
+}
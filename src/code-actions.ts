@@ -0,0 +1,250 @@
+/**
+ * 翻译代码操作模块
+ *
+ * 该模块在包含中文的标识符、字符串和注释上提供快速修复（灯泡），
+ * 如将中文标识符翻译为camelCase、将中文注释翻译为英文，
+ * 符合当前文件语言和上下文命名规范的格式作为首选操作，译文会先清理为合法的标识符。
+ * 提供操作时不会发起翻译请求，只有用户选择某个操作后才翻译
+ *
+ * @author uli
+ * @version 1.3.0
+ */
+
+import * as vscode from 'vscode';
+import { findCommentAt, getCommentSyntax } from './comment-translation';
+import { toIdentifier } from './identifier-sanitizer';
+import { AUTO_LANGUAGE } from './languages';
+import { getNamingFormat, getPreferredFormatAt } from './naming-conventions';
+import { TranslatorRegistry } from './translator-registry';
+import { NamingFormat } from './utils';
+
+/**
+ * 匹配中文的正则表达式
+ */
+const HAN_PATTERN = /\p{Script=Han}/u;
+
+/**
+ * 匹配标识符（包括中文标识符）的正则表达式
+ */
+const IDENTIFIER_PATTERN = /[\p{L}\p{N}_$]+/u;
+
+/**
+ * 标识符提供的命名格式
+ */
+const IDENTIFIER_FORMATS = ['camelCase', 'PascalCase', 'snake_case', 'CONSTANT_CASE'];
+
+/**
+ * 需要翻译的代码操作，选择后才翻译并生成修改
+ */
+class TranslationCodeAction extends vscode.CodeAction {
+  /**
+   * 构造函数
+   * @param title 操作标题
+   * @param document 文档
+   * @param range 要替换的范围
+   * @param format 命名格式，翻译字符串和注释时为undefined
+   * @param quote 字符串的引号，译文中的反斜杠和引号需要转义
+   */
+  constructor(
+    title: string,
+    public readonly document: vscode.TextDocument,
+    public readonly range: vscode.Range,
+    public readonly format?: NamingFormat,
+    public readonly quote?: string
+  ) {
+    super(title, vscode.CodeActionKind.QuickFix);
+  }
+}
+
+/**
+ * 查找位置所在的字符串，只查找当前行
+ * @param document 文档
+ * @param position 位置
+ * @returns 字符串内容的范围（不包括引号）和引号，位置不在字符串中时返回undefined
+ */
+export function findStringAt(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): { range: vscode.Range; quote: string } | undefined {
+  const syntax = getCommentSyntax(document.languageId);
+  const quotes = [...(syntax?.strings ?? ['"', '\'']), ...(syntax?.multilineStrings ?? [])];
+  const text = document.lineAt(position.line).text;
+
+  let index = 0;
+  while (index < text.length) {
+    const quote = text[index];
+    if (!quotes.includes(quote)) {
+      index++;
+      continue;
+    }
+    let end = index + 1;
+    while (end < text.length && text[end] !== quote) {
+      end += text[end] === '\\' ? 2 : 1;
+    }
+    if (index < position.character && position.character <= end) {
+      return {
+        range: new vscode.Range(position.line, index + 1, position.line, Math.min(end, text.length)),
+        quote
+      };
+    }
+    index = end + 1;
+  }
+  return undefined;
+}
+
+/**
+ * 转义写入字符串字面量的文本
+ * 先转义反斜杠，再转义引号；模板字符串中的${还需要转义，避免被当作插值执行
+ *
+ * @param text 要写入字符串的文本
+ * @param quote 字符串的引号
+ * @returns 转义后的文本
+ * @example
+ * // 返回: "a\\\\b \\`c\\` \\${d}"
+ * escapeStringLiteral('a\\b `c` ${d}', '`');
+ */
+function escapeStringLiteral(text: string, quote: string): string {
+  const escaped = text.replace(/\\/g, '\\\\').split(quote).join(`\\${quote}`);
+  return quote === '`' ? escaped.replace(/\$\{/g, '\\${') : escaped;
+}
+
+/**
+ * 获取注释在当前行的文本范围，不包括注释标记、前导星号和首尾空白
+ * @param document 文档
+ * @param line 行号
+ * @param comment 注释
+ * @returns 注释文本的范围
+ */
+function getCommentTextRange(
+  document: vscode.TextDocument,
+  line: number,
+  comment: { range: vscode.Range; open: string; close: string }
+): vscode.Range {
+  const text = document.lineAt(line).text;
+  let start = comment.range.start.line === line ? comment.range.start.character + comment.open.length : 0;
+  let end = comment.range.end.line === line ? comment.range.end.character - comment.close.length : text.length;
+
+  start += /^[\s*/#!-]*/.exec(text.slice(start, end))![0].length;
+  end -= /\s*$/.exec(text.slice(start, end))![0].length;
+  return new vscode.Range(line, start, line, Math.max(start, end));
+}
+
+/**
+ * 翻译代码操作提供者
+ */
+export class TranslationCodeActionProvider implements vscode.CodeActionProvider<vscode.CodeAction> {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  /**
+   * 构造函数
+   * @param registry 翻译器注册表
+   */
+  constructor(private readonly registry: TranslatorRegistry) {}
+
+  public provideCodeActions(document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction[] {
+    if (!vscode.workspace.getConfiguration('uliTranslation.codeActions', document).get<boolean>('enable', true)) {
+      return [];
+    }
+    // 只有包含中文时才提供翻译操作
+    const position = range.start;
+    const lineText = document.lineAt(position.line).text;
+    if (!HAN_PATTERN.test(range.isEmpty ? lineText : document.getText(range))) {
+      return [];
+    }
+
+    const comment = findCommentAt(document, position);
+    if (comment) {
+      const target = range.isEmpty ? getCommentTextRange(document, position.line, comment) : range;
+      return HAN_PATTERN.test(document.getText(target))
+        ? [new TranslationCodeAction('将注释翻译为英文', document, target)]
+        : [];
+    }
+
+    const literal = findStringAt(document, position);
+    if (literal) {
+      const target = range.isEmpty ? literal.range : range;
+      return HAN_PATTERN.test(document.getText(target))
+        ? [new TranslationCodeAction('将字符串翻译为英文', document, target, undefined, literal.quote)]
+        : [];
+    }
+
+    const target = range.isEmpty ? document.getWordRangeAtPosition(position, IDENTIFIER_PATTERN) : range;
+    if (!target || !HAN_PATTERN.test(document.getText(target))) {
+      return [];
+    }
+
+    // 符合语言命名规范的格式排在最前面并作为首选操作
+    const preferred = getPreferredFormatAt(document, target.start);
+    const formats = [preferred, ...IDENTIFIER_FORMATS.map(id => getNamingFormat(id)!)]
+      .filter((format, index, list) => list.indexOf(format) === index);
+    const actions: vscode.CodeAction[] = formats.map(format => {
+      const action = new TranslationCodeAction(`翻译为${format.id}`, document, target, format);
+      action.isPreferred = format === preferred;
+      return action;
+    });
+
+    const rename = new vscode.CodeAction('翻译并重命名符号', vscode.CodeActionKind.QuickFix);
+    rename.command = { command: 'uli-translation.translateAndRename', title: '翻译并重命名符号' };
+    actions.push(rename);
+    return actions;
+  }
+
+  /**
+   * 翻译选中的代码操作对应的文本，并生成替换的修改
+   * @param action 代码操作
+   * @returns 包含修改的代码操作，翻译失败时不包含修改
+   */
+  public async resolveCodeAction(action: vscode.CodeAction): Promise<vscode.CodeAction> {
+    if (!(action instanceof TranslationCodeAction)) {
+      return action;
+    }
+
+    const text = action.document.getText(action.range);
+    try {
+      const outcome = await this.registry.translate(text, AUTO_LANGUAGE, 'en');
+      if (outcome.lostPlaceholders.length > 0) {
+        vscode.window.showWarningMessage(
+          `译文中丢失了占位符或标记：${outcome.lostPlaceholders.join('、')}，已取消本次翻译`
+        );
+        return action;
+      }
+      if (outcome.lostTerms.length > 0) {
+        vscode.window.showWarningMessage(
+          `译文中没有使用术语表规定的译文：${outcome.lostTerms.map(term => `${term.source}→${term.target}`).join('、')}，请检查后再使用`
+        );
+      }
+
+      let result = action.format
+        ? toIdentifier(outcome.text, action.format, action.document.languageId)
+        : outcome.text;
+      if (result === undefined) {
+        vscode.window.showWarningMessage(`译文「${outcome.text}」无法转换为合法的标识符，已取消本次翻译`);
+        return action;
+      }
+      if (action.quote) {
+        result = escapeStringLiteral(result, action.quote);
+      }
+      action.edit = new vscode.WorkspaceEdit();
+      action.edit.replace(action.document.uri, action.range, result);
+    } catch (error) {
+      vscode.window.showErrorMessage(`翻译失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+    return action;
+  }
+}
+
+/**
+ * 注册翻译代码操作提供者
+ *
+ * @param context 扩展上下文，用于注册提供者和管理资源
+ * @param registry 翻译器注册表
+ */
+export function registerTranslationCodeActions(context: vscode.ExtensionContext, registry: TranslatorRegistry): void {
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      [{ scheme: 'file' }, { scheme: 'untitled' }],
+      new TranslationCodeActionProvider(registry),
+      { providedCodeActionKinds: TranslationCodeActionProvider.providedCodeActionKinds }
+    )
+  );
+}
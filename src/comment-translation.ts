@@ -0,0 +1,662 @@
+/**
+ * 注释翻译模块
+ *
+ * 该模块按各语言的注释语法找出当前文档中的注释，并将注释的译文以装饰的形式显示在编辑器中，不修改文件内容。
+ * VSCode扩展API无法获取TextMate分词结果，因此注释范围由内置的注释语法表扫描得到，
+ * 扫描时会跳过字符串，避免把字符串中的//或#识别为注释。
+ * 只翻译可见区域内的注释，多条注释合并为一次请求发送给翻译API，译文按条写入翻译缓存，
+ * 编辑文档后只翻译新增或修改过的注释；翻译失败的注释在一段时间后刷新时重新翻译
+ *
+ * @author uli
+ * @version 1.2.0
+ */
+
+import * as vscode from 'vscode';
+import { detectScriptLanguage } from './language-detection';
+import { AUTO_LANGUAGE } from './languages';
+import { TranslationCache } from './translation-cache';
+import { TranslationOutcome, TranslatorRegistry } from './translator-registry';
+
+/**
+ * 注释语法
+ *
+ * @property line - 单行注释的开始标记
+ * @property block - 多行注释的开始和结束标记
+ * @property strings - 字符串的引号，引号之间的内容不会被识别为注释
+ * @property multilineStrings - 可以跨行的字符串的引号（如模板字符串）
+ */
+export interface CommentSyntax {
+  line: string[];
+  block: [string, string][];
+  strings: string[];
+  multilineStrings?: string[];
+}
+
+/**
+ * 注释
+ *
+ * @property text - 去掉注释标记后的注释文本，每行一个元素
+ * @property startLine - 注释开始的行
+ * @property endLine - 注释结束的行
+ * @property ownLine - 注释是否独占一行（注释之前没有代码）
+ * @property lineComment - 是否为单行注释
+ */
+interface CommentBlock {
+  text: string[];
+  startLine: number;
+  endLine: number;
+  ownLine: boolean;
+  lineComment: boolean;
+}
+
+/**
+ * 注释在文档中的位置
+ *
+ * @property start - 注释开始的偏移量
+ * @property end - 注释结束的偏移量
+ * @property open - 注释的开始标记
+ * @property close - 注释的结束标记，单行注释为空字符串
+ */
+interface CommentRange {
+  start: number;
+  end: number;
+  open: string;
+  close: string;
+}
+
+/**
+ * 需要翻译的注释片段，译文显示在line行的行尾
+ */
+interface CommentUnit {
+  text: string;
+  line: number;
+}
+
+/**
+ * 注释译文的显示方式
+ * afterLine: 整条注释翻译后显示在注释最后一行的行尾
+ * inline: 多行注释逐行翻译，每行的译文显示在该行行尾
+ */
+type CommentDisplay = 'afterLine' | 'inline';
+
+const C_LIKE: CommentSyntax = { line: ['//'], block: [['/*', '*/']], strings: ['"', '\''] };
+const JS_LIKE: CommentSyntax = { line: ['//'], block: [['/*', '*/']], strings: ['"', '\''], multilineStrings: ['`'] };
+const HASH: CommentSyntax = { line: ['#'], block: [], strings: ['"', '\''] };
+const MARKUP: CommentSyntax = { line: [], block: [['<!--', '-->']], strings: [] };
+
+/**
+ * 各语言的注释语法，键为VSCode的语言标识
+ */
+const COMMENT_SYNTAX: { [languageId: string]: CommentSyntax } = {
+  'javascript': JS_LIKE,
+  'javascriptreact': JS_LIKE,
+  'typescript': JS_LIKE,
+  'typescriptreact': JS_LIKE,
+  'dart': JS_LIKE,
+  'c': C_LIKE,
+  'cpp': C_LIKE,
+  'csharp': C_LIKE,
+  'java': C_LIKE,
+  'kotlin': C_LIKE,
+  'scala': C_LIKE,
+  'swift': C_LIKE,
+  'rust': C_LIKE,
+  'jsonc': C_LIKE,
+  'less': C_LIKE,
+  'scss': C_LIKE,
+  'go': { line: ['//'], block: [['/*', '*/']], strings: ['"', '\''], multilineStrings: ['`'] },
+  'php': { line: ['//', '#'], block: [['/*', '*/']], strings: ['"', '\''] },
+  'css': { line: [], block: [['/*', '*/']], strings: ['"', '\''] },
+  'python': { line: ['#'], block: [['"""', '"""'], ['\'\'\'', '\'\'\'']], strings: ['"', '\''] },
+  'ruby': HASH,
+  'perl': HASH,
+  'r': HASH,
+  'shellscript': HASH,
+  'dockerfile': HASH,
+  'makefile': HASH,
+  'yaml': HASH,
+  'toml': HASH,
+  'properties': HASH,
+  'powershell': { line: ['#'], block: [['<#', '#>']], strings: ['"', '\''] },
+  'sql': { line: ['--'], block: [['/*', '*/']], strings: ['\''] },
+  'lua': { line: ['--'], block: [['--[[', ']]']], strings: ['"', '\''] },
+  'haskell': { line: ['--'], block: [['{-', '-}']], strings: ['"'] },
+  'html': MARKUP,
+  'xml': MARKUP,
+  'vue': { line: ['//'], block: [['<!--', '-->'], ['/*', '*/']], strings: ['"', '\''], multilineStrings: ['`'] },
+  'markdown': MARKUP
+};
+
+/**
+ * 不需要翻译的注释，如代码检查工具的指令和折叠区域标记
+ */
+const DIRECTIVE_PATTERN = /^(eslint[-\s]|@ts-|prettier-|istanbul\s|tslint:|noqa|pylint:|type:|#?(end)?region\b|-\*-)/i;
+
+/**
+ * 单次翻译请求的最大字符数，超过时拆分为多次请求
+ */
+const MAX_BATCH_LENGTH = 1500;
+
+/**
+ * 译文在编辑器中显示的最大字符数，超过部分在悬停提示中查看
+ */
+const MAX_DISPLAY_LENGTH = 120;
+
+/**
+ * 合并请求的译文行数不一致、需要逐条翻译时，同时进行的请求数量
+ */
+const MAX_CONCURRENT_REQUESTS = 2;
+
+/**
+ * 逐条翻译失败时的重试次数，每次重试前的等待时间加倍
+ */
+const MAX_RETRIES = 2;
+
+/**
+ * 第一次重试前的等待时间（毫秒）
+ */
+const RETRY_BASE_DELAY = 1000;
+
+/**
+ * 翻译失败的注释在多长时间（毫秒）之后才重新翻译
+ */
+const FAILED_RETRY_INTERVAL = 60 * 1000;
+
+/**
+ * 扫描文档中的注释
+ *
+ * @param text 文档内容
+ * @param syntax 注释语法
+ * @returns 注释的起止偏移量，按出现顺序排列
+ */
+function scanComments(text: string, syntax: CommentSyntax): CommentRange[] {
+  const comments: CommentRange[] = [];
+  // 较长的标记优先匹配，如lua的--[[优先于--
+  const blocks = [...syntax.block].sort((a, b) => b[0].length - a[0].length);
+  const lines = [...syntax.line].sort((a, b) => b.length - a.length);
+  const multiline = syntax.multilineStrings ?? [];
+  let index = 0;
+
+  while (index < text.length) {
+    const block = blocks.find(([open]) => text.startsWith(open, index));
+    const line = lines.find(open => text.startsWith(open, index));
+    if (block && (!line || block[0].length >= line.length)) {
+      const closeIndex = text.indexOf(block[1], index + block[0].length);
+      const end = closeIndex < 0 ? text.length : closeIndex + block[1].length;
+      comments.push({ start: index, end, open: block[0], close: block[1] });
+      index = end;
+      continue;
+    }
+    if (line) {
+      const newline = text.indexOf('\n', index);
+      const end = newline < 0 ? text.length : newline;
+      comments.push({ start: index, end, open: line, close: '' });
+      index = end;
+      continue;
+    }
+
+    // 跳过字符串，普通字符串在行尾结束
+    const char = text[index];
+    if (syntax.strings.includes(char) || multiline.includes(char)) {
+      const canSpanLines = multiline.includes(char);
+      index++;
+      while (index < text.length && text[index] !== char && (canSpanLines || text[index] !== '\n')) {
+        index += text[index] === '\\' ? 2 : 1;
+      }
+    }
+    index++;
+  }
+  return comments;
+}
+
+/**
+ * 找出文档中的注释并去掉注释标记
+ *
+ * @param document 文档
+ * @returns 注释列表，不支持该语言时返回undefined
+ */
+function findComments(document: vscode.TextDocument): CommentBlock[] | undefined {
+  const syntax = COMMENT_SYNTAX[document.languageId];
+  if (!syntax) {
+    return undefined;
+  }
+
+  const text = document.getText();
+  const comments: CommentBlock[] = [];
+  for (const { start, end, open, close } of scanComments(text, syntax)) {
+    const startPosition = document.positionAt(start);
+    const ownLine = document.lineAt(startPosition.line).firstNonWhitespaceCharacterIndex === startPosition.character;
+    const lineComment = !close;
+    const body = text.slice(start + open.length, !lineComment && text.endsWith(close, end) ? end - close.length : end);
+    const lines = lineComment
+      // 去掉单行注释的重复标记，如///、//!、##
+      ? [body.replace(new RegExp(`^[${open[0].replace(/[-/\\]/g, '\\$&')}!]+`), '').trim()]
+      // 去掉多行注释每行的前导星号
+      : body.split(/\r?\n/).map(line => line.replace(/^\s*\*(?!\/)/, '').replace(/^\*+/, '').trim());
+
+    // 相邻行上独占一行的单行注释合并为一条注释
+    const previous = comments[comments.length - 1];
+    if (lineComment && ownLine && previous?.lineComment && previous.ownLine && previous.endLine === startPosition.line - 1) {
+      previous.text.push(...lines);
+      previous.endLine = startPosition.line;
+      continue;
+    }
+    comments.push({
+      text: lines,
+      startLine: startPosition.line,
+      endLine: document.positionAt(end).line,
+      ownLine,
+      lineComment
+    });
+  }
+  return comments;
+}
+
+/**
+ * 获取语言的注释语法
+ * @param languageId VSCode的语言标识
+ * @returns 注释语法，不支持该语言时返回undefined
+ */
+export function getCommentSyntax(languageId: string): CommentSyntax | undefined {
+  return COMMENT_SYNTAX[languageId];
+}
+
+/**
+ * 查找位置所在的注释
+ * @param document 文档
+ * @param position 位置
+ * @returns 注释的范围（包括注释标记）和注释标记，位置不在注释中时返回undefined
+ */
+export function findCommentAt(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): { range: vscode.Range; open: string; close: string } | undefined {
+  const syntax = COMMENT_SYNTAX[document.languageId];
+  if (!syntax) {
+    return undefined;
+  }
+  const offset = document.offsetAt(position);
+  const comment = scanComments(document.getText(), syntax).find(item => item.start <= offset && offset <= item.end);
+  return comment && {
+    range: new vscode.Range(document.positionAt(comment.start), document.positionAt(comment.end)),
+    open: comment.open,
+    close: comment.close
+  };
+}
+
+/**
+ * 判断注释片段是否需要翻译
+ * @param text 注释片段
+ * @param target 目标语言
+ * @returns 注释包含文字、不是工具指令且不是目标语言时返回true
+ */
+function needsTranslation(text: string, target: string): boolean {
+  if (text.length < 2 || DIRECTIVE_PATTERN.test(text) || !/\p{L}/u.test(text)) {
+    return false;
+  }
+  // 按文字识别时无法区分简体和繁体中文，中文注释翻译为中文时视为不需要翻译
+  const language = detectScriptLanguage(text);
+  return language !== undefined && language !== target && !(target.startsWith('zh') && language === 'zh');
+}
+
+/**
+ * 注释翻译控制器
+ * 负责开关注释翻译、扫描注释、批量翻译以及更新编辑器装饰
+ */
+export class CommentTranslationController implements vscode.Disposable {
+  // 注释翻译是否开启，保存在工作区状态中
+  private static readonly STATE_KEY = 'uliTranslation.commentTranslation.enabled';
+
+  // 显示译文的装饰类型
+  private readonly decorationType = vscode.window.createTextEditorDecorationType({
+    after: {
+      color: new vscode.ThemeColor('editorCodeLens.foreground'),
+      fontStyle: 'italic',
+      margin: '0 0 0 2em'
+    },
+    rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+  });
+
+  // 已翻译的注释，键为"目标语言|注释"
+  private readonly translations = new Map<string, string>();
+  // 正在翻译的注释，避免重复请求
+  private readonly requested = new Set<string>();
+  // 翻译失败的注释及可以重新翻译的时间
+  private readonly retryAt = new Map<string, number>();
+  // 各文档的刷新定时器，用于防抖
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private enabled: boolean;
+
+  /**
+   * 构造函数
+   * @param context 扩展上下文，用于保存开关状态
+   * @param cache 翻译缓存
+   * @param registry 翻译器注册表
+   */
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly cache: TranslationCache,
+    private readonly registry: TranslatorRegistry
+  ) {
+    this.enabled = context.workspaceState.get<boolean>(CommentTranslationController.STATE_KEY, false);
+
+    this.disposables.push(
+      this.decorationType,
+      vscode.window.onDidChangeVisibleTextEditors(() => this.refreshAll()),
+      vscode.window.onDidChangeTextEditorVisibleRanges(event => this.scheduleRefresh(event.textEditor.document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleRefresh(event.document)),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('uliTranslation.commentTranslation')) {
+          this.refreshAll();
+        }
+      })
+    );
+    this.refreshAll();
+  }
+
+  /**
+   * 开启或关闭注释翻译
+   */
+  public async toggle(): Promise<void> {
+    this.enabled = !this.enabled;
+    this.requested.clear();
+    this.retryAt.clear();
+    await this.context.workspaceState.update(CommentTranslationController.STATE_KEY, this.enabled);
+
+    const editor = vscode.window.activeTextEditor;
+    if (this.enabled && editor && !COMMENT_SYNTAX[editor.document.languageId]) {
+      vscode.window.showWarningMessage(`注释翻译暂不支持${editor.document.languageId}语言`);
+    }
+    vscode.window.setStatusBarMessage(this.enabled ? '注释翻译已开启' : '注释翻译已关闭', 3000);
+    this.refreshAll();
+  }
+
+  /**
+   * 刷新所有可见编辑器的注释译文
+   */
+  private refreshAll(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      this.refresh(editor);
+    }
+  }
+
+  /**
+   * 延迟刷新文档，连续编辑或滚动时只刷新一次
+   * @param document 文档
+   */
+  private scheduleRefresh(document: vscode.TextDocument): void {
+    if (!this.enabled) {
+      return;
+    }
+    const key = document.uri.toString();
+    clearTimeout(this.timers.get(key));
+    this.timers.set(key, setTimeout(() => {
+      this.timers.delete(key);
+      for (const editor of vscode.window.visibleTextEditors) {
+        if (editor.document === document) {
+          this.refresh(editor);
+        }
+      }
+    }, 500));
+  }
+
+  /**
+   * 扫描编辑器可见区域内的注释，显示已有的译文并翻译尚未翻译的注释
+   * @param editor 编辑器
+   */
+  private async refresh(editor: vscode.TextEditor): Promise<void> {
+    if (!this.enabled) {
+      editor.setDecorations(this.decorationType, []);
+      return;
+    }
+
+    const config = vscode.workspace.getConfiguration('uliTranslation.commentTranslation');
+    const target = config.get<string>('targetLanguage', 'zh');
+    const display = config.get<CommentDisplay>('display', 'afterLine');
+    const units = this.getVisibleUnits(editor, display).filter(unit => needsTranslation(unit.text, target));
+
+    this.render(editor, units, target);
+
+    // 优先使用翻译缓存，缓存中没有的注释合并后发送给翻译API
+    const pending: string[] = [];
+    const now = Date.now();
+    for (const { text } of units) {
+      const key = `${target}|${text}`;
+      if (this.translations.has(key) || this.requested.has(key) || (this.retryAt.get(key) ?? 0) > now) {
+        continue;
+      }
+      const cached = this.cache.get(text, AUTO_LANGUAGE, target);
+      if (cached) {
+        this.translations.set(key, cached.result);
+      } else if (!pending.includes(text)) {
+        pending.push(text);
+      }
+    }
+    if (pending.length === 0) {
+      this.render(editor, units, target);
+      return;
+    }
+
+    pending.forEach(text => this.requested.add(`${target}|${text}`));
+    const failed = await this.translateBatches(pending, target);
+    pending.forEach(text => this.requested.delete(`${target}|${text}`));
+
+    // 翻译失败的注释暂不重试，避免翻译API访问受限时反复请求
+    if (failed.length > 0) {
+      const retryAt = Date.now() + FAILED_RETRY_INTERVAL;
+      failed.forEach(text => this.retryAt.set(`${target}|${text}`, retryAt));
+      vscode.window.setStatusBarMessage(`${failed.length}条注释翻译失败，稍后会重新翻译`, 5000);
+    }
+
+    // 翻译期间文档可能已经修改，重新扫描后显示译文
+    for (const visible of vscode.window.visibleTextEditors) {
+      if (visible.document === editor.document) {
+        this.render(visible, this.getVisibleUnits(visible, display), target);
+      }
+    }
+  }
+
+  /**
+   * 获取编辑器可见区域内需要显示译文的注释片段
+   * @param editor 编辑器
+   * @param display 译文的显示方式
+   * @returns 注释片段列表
+   */
+  private getVisibleUnits(editor: vscode.TextEditor, display: CommentDisplay): CommentUnit[] {
+    const comments = findComments(editor.document) ?? [];
+    // 可见区域上下各多扫描一屏，滚动时译文可以提前准备好
+    const visible = editor.visibleRanges.map(range => {
+      const height = range.end.line - range.start.line;
+      return { start: range.start.line - height, end: range.end.line + height };
+    });
+    const isVisible = (comment: CommentBlock) =>
+      visible.some(range => comment.startLine <= range.end && comment.endLine >= range.start);
+
+    const units: CommentUnit[] = [];
+    for (const comment of comments.filter(isVisible)) {
+      if (display === 'inline') {
+        comment.text.forEach((text, index) => {
+          if (text) {
+            units.push({ text: text.replace(/\s+/g, ' '), line: comment.startLine + index });
+          }
+        });
+        continue;
+      }
+      const text = comment.text.filter(line => line).join(' ').replace(/\s+/g, ' ');
+      if (text) {
+        units.push({ text, line: comment.endLine });
+      }
+    }
+    return units;
+  }
+
+  /**
+   * 将多条注释合并为若干次翻译请求，每行一条注释
+   * 译文的行数与原文不一致或丢失了占位符、术语时逐条重新翻译；合并后的文本不会留在翻译缓存中，译文按条写入缓存
+   *
+   * @param texts 要翻译的注释
+   * @param target 目标语言
+   * @returns 翻译失败的注释
+   */
+  private async translateBatches(texts: string[], target: string): Promise<string[]> {
+    const batches: string[][] = [];
+    let length = 0;
+    for (const text of texts) {
+      if (batches.length === 0 || length + text.length > MAX_BATCH_LENGTH) {
+        batches.push([]);
+        length = 0;
+      }
+      batches[batches.length - 1].push(text);
+      length += text.length + 1;
+    }
+
+    const failed: string[] = [];
+    for (const batch of batches) {
+      const joined = batch.join('\n');
+      let outcome: TranslationOutcome;
+      try {
+        outcome = await this.registry.translate(joined, AUTO_LANGUAGE, target);
+      } catch (error) {
+        // 合并请求失败时逐条翻译也会失败，整批稍后重试
+        console.warn(`注释翻译失败: ${error instanceof Error ? error.message : error}`);
+        failed.push(...batch);
+        continue;
+      }
+      // 合并后的文本不会再被查找，从翻译缓存中删除，只保留按条写入的译文
+      if (batch.length > 1 && outcome.translator) {
+        this.cache.delete({ provider: outcome.translator.id, text: joined, from: AUTO_LANGUAGE, to: target });
+      }
+
+      // 丢失了占位符或术语时无法确定每行译文是否可靠，与行数不一致一样逐条重新翻译
+      const lines = outcome.text.split(/\r?\n/);
+      const lostMarkers = outcome.lostPlaceholders.length > 0 || outcome.lostTerms.length > 0;
+      if (lines.length === batch.length && !(batch.length > 1 && lostMarkers)) {
+        batch.forEach((text, index) => this.store(text, lines[index].trim(), target, outcome));
+      } else {
+        failed.push(...await this.translateEach(batch, target));
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * 逐条翻译注释，同时最多进行MAX_CONCURRENT_REQUESTS个请求
+   * @param texts 要翻译的注释
+   * @param target 目标语言
+   * @returns 翻译失败的注释
+   */
+  private async translateEach(texts: string[], target: string): Promise<string[]> {
+    const queue = [...texts];
+    const failed: string[] = [];
+    const worker = async () => {
+      for (let text = queue.shift(); text !== undefined; text = queue.shift()) {
+        try {
+          const outcome = await this.translateWithRetry(text, target);
+          this.store(text, outcome.text, target, outcome);
+        } catch (error) {
+          console.warn(`注释翻译失败: ${error instanceof Error ? error.message : error}`);
+          failed.push(text);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_REQUESTS, texts.length) }, worker));
+    return failed;
+  }
+
+  /**
+   * 翻译单条注释，失败时等待一段时间后重试，每次重试的等待时间加倍
+   * @param text 注释
+   * @param target 目标语言
+   * @returns 翻译结果
+   * @throws Error 当重试MAX_RETRIES次后仍然失败时抛出最后一次的错误
+   */
+  private async translateWithRetry(text: string, target: string): Promise<TranslationOutcome> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.registry.translate(text, AUTO_LANGUAGE, target);
+      } catch (error) {
+        if (attempt >= MAX_RETRIES || !this.enabled) {
+          throw error;
+        }
+        await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY * 2 ** attempt));
+      }
+    }
+  }
+
+  /**
+   * 保存注释的译文，并按条写入翻译缓存
+   * 与翻译器的缓存规则一致，丢失了占位符或术语的译文只用于显示，不写入翻译缓存
+   *
+   * @param text 注释
+   * @param result 译文
+   * @param target 目标语言
+   * @param outcome 给出译文的翻译结果
+   */
+  private store(text: string, result: string, target: string, outcome: TranslationOutcome): void {
+    this.translations.set(`${target}|${text}`, result);
+    this.retryAt.delete(`${target}|${text}`);
+    if (outcome.translator && outcome.lostPlaceholders.length === 0 && outcome.lostTerms.length === 0) {
+      this.cache.set(text, result, AUTO_LANGUAGE, target, outcome.translator.id);
+    }
+  }
+
+  /**
+   * 在注释所在行的行尾显示译文
+   * @param editor 编辑器
+   * @param units 注释片段
+   * @param target 目标语言
+   */
+  private render(editor: vscode.TextEditor, units: CommentUnit[], target: string): void {
+    if (!this.enabled) {
+      editor.setDecorations(this.decorationType, []);
+      return;
+    }
+
+    const decorations: vscode.DecorationOptions[] = [];
+    for (const { text, line } of units) {
+      const translation = this.translations.get(`${target}|${text}`);
+      if (!translation || line >= editor.document.lineCount) {
+        continue;
+      }
+      const end = editor.document.lineAt(line).range.end;
+      decorations.push({
+        range: new vscode.Range(end, end),
+        hoverMessage: new vscode.MarkdownString().appendText(translation),
+        renderOptions: {
+          after: {
+            contentText: translation.length > MAX_DISPLAY_LENGTH
+              ? `${translation.substring(0, MAX_DISPLAY_LENGTH)}...`
+              : translation
+          }
+        }
+      });
+    }
+    editor.setDecorations(this.decorationType, decorations);
+  }
+
+  public dispose(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
+
+/**
+ * 注册注释翻译以及开关注释翻译的命令
+ *
+ * @param context 扩展上下文，用于注册命令和管理资源
+ * @param cache 翻译缓存
+ * @param registry 翻译器注册表
+ */
+export function registerCommentTranslation(
+  context: vscode.ExtensionContext,
+  cache: TranslationCache,
+  registry: TranslatorRegistry
+): void {
+  const controller = new CommentTranslationController(context, cache, registry);
+  context.subscriptions.push(
+    controller,
+    vscode.commands.registerCommand('uli-translation.toggleCommentTranslation', () => controller.toggle())
+  );
+}
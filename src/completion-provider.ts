@@ -0,0 +1,179 @@
+/**
+ * 中文标识符补全模块
+ *
+ * 输入中文（如“用户列表”）时，将其翻译为英文并按命名格式生成补全项（如userList、UserList、user_list、USER_LIST），
+ * 符合当前文件语言和上下文命名规范的格式排在最前面，译文会先清理为合法的标识符。
+ * 优先使用翻译缓存；缓存中没有时，停止输入一段时间后才发起翻译请求，避免每次按键都调用翻译API。
+ * 只在标识符位置提供补全：注释、字符串以及没有注释语法的文件（如Markdown、纯文本）中的中文不会发送到翻译API
+ *
+ * @author uli
+ * @version 1.3.0
+ */
+
+import * as vscode from 'vscode';
+import { findStringAt } from './code-actions';
+import { findCommentAt, getCommentSyntax } from './comment-translation';
+import { toIdentifier } from './identifier-sanitizer';
+import { AUTO_LANGUAGE } from './languages';
+import { getNamingFormat, getPreferredFormatAt } from './naming-conventions';
+import { TranslationCache } from './translation-cache';
+import { TranslatorRegistry } from './translator-registry';
+import { NamingFormat } from './utils';
+
+/**
+ * 匹配光标前连续中文的正则表达式
+ */
+const HAN_BEFORE_CURSOR = /\p{Script=Han}+$/u;
+
+/**
+ * 补全项提供的命名格式
+ */
+const COMPLETION_FORMATS = ['camelCase', 'PascalCase', 'snake_case', 'CONSTANT_CASE'];
+
+/**
+ * 各命名格式的补全项类型
+ */
+const COMPLETION_KINDS: { [format: string]: vscode.CompletionItemKind } = {
+  'PascalCase': vscode.CompletionItemKind.Class,
+  'CONSTANT_CASE': vscode.CompletionItemKind.Constant
+};
+
+/**
+ * 中文标识符补全提供者
+ */
+export class TranslationCompletionProvider implements vscode.CompletionItemProvider {
+  /**
+   * 构造函数
+   * @param cache 翻译缓存
+   * @param registry 翻译器注册表
+   */
+  constructor(
+    private readonly cache: TranslationCache,
+    private readonly registry: TranslatorRegistry
+  ) {}
+
+  public async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CompletionList | undefined> {
+    const config = vscode.workspace.getConfiguration('uliTranslation.completion', document);
+    if (!config.get<boolean>('enable', false)) {
+      return undefined;
+    }
+
+    const match = HAN_BEFORE_CURSOR.exec(document.lineAt(position.line).text.substring(0, position.character));
+    if (
+      !match ||
+      match[0].length < config.get<number>('minLength', 2) ||
+      match[0].length > config.get<number>('maxLength', 16)
+    ) {
+      return undefined;
+    }
+    const text = match[0];
+    const range = new vscode.Range(position.line, position.character - text.length, position.line, position.character);
+
+    // 只在标识符位置提供补全，不翻译注释、字符串和文档中的中文
+    if (!getCommentSyntax(document.languageId) || findCommentAt(document, range.start) || findStringAt(document, range.start)) {
+      return undefined;
+    }
+
+    // 优先使用翻译缓存，缓存中没有时等待停止输入后再翻译
+    let translation = this.cache.get(text, AUTO_LANGUAGE, 'en')?.result;
+    let sourceName = '翻译缓存';
+    if (!translation) {
+      if (!this.registry.resolve()) {
+        return undefined;
+      }
+      await new Promise(resolve => setTimeout(resolve, config.get<number>('delay', 400)));
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+      try {
+        const outcome = await this.registry.translate(text, AUTO_LANGUAGE, 'en');
+        // 补全项会直接插入代码，译文丢失了占位符或没有使用术语表规定的译文时不提供补全
+        if (outcome.lostPlaceholders.length > 0 || outcome.lostTerms.length > 0) {
+          return undefined;
+        }
+        translation = outcome.text;
+        sourceName = outcome.sourceName;
+      } catch (error) {
+        console.warn(`中文标识符补全翻译失败: ${error instanceof Error ? error.message : error}`);
+        return undefined;
+      }
+    }
+
+    // 符合语言命名规范的格式排在最前面并默认选中
+    const preferred = getPreferredFormatAt(document, range.start);
+    const formats = [preferred, ...COMPLETION_FORMATS.map(id => getNamingFormat(id)!)]
+      .filter((format, index, list) => list.indexOf(format) === index);
+    const items = formats
+      .map((format, index) => this.createItem(document, format, text, translation!, sourceName, range, index))
+      .filter((item): item is vscode.CompletionItem => !!item);
+    if (items.length === 0) {
+      console.warn(`中文标识符补全的译文「${translation}」无法转换为合法的标识符`);
+      return undefined;
+    }
+    items[0].preselect = true;
+
+    // 继续输入中文时重新翻译
+    return new vscode.CompletionList(items, true);
+  }
+
+  /**
+   * 创建补全项
+   * @param document 文档，用于检查标识符是否与语言的关键字冲突
+   * @param format 命名格式
+   * @param text 输入的中文
+   * @param translation 译文
+   * @param sourceName 译文的来源
+   * @param range 要替换的范围
+   * @param index 补全项的顺序
+   * @returns 补全项，译文无法转换为合法的标识符时返回undefined
+   */
+  private createItem(
+    document: vscode.TextDocument,
+    format: NamingFormat,
+    text: string,
+    translation: string,
+    sourceName: string,
+    range: vscode.Range,
+    index: number
+  ): vscode.CompletionItem | undefined {
+    const name = toIdentifier(translation, format, document.languageId);
+    if (!name) {
+      return undefined;
+    }
+    const item = new vscode.CompletionItem(
+      { label: name, description: format.id },
+      COMPLETION_KINDS[format.id] ?? vscode.CompletionItemKind.Variable
+    );
+    item.insertText = name;
+    item.range = range;
+    // 补全项按输入的中文过滤，否则英文名称会被编辑器过滤掉
+    item.filterText = text;
+    item.sortText = `${index}`;
+    item.detail = `${text} → ${translation}（${sourceName}）`;
+    return item;
+  }
+}
+
+/**
+ * 注册中文标识符补全提供者
+ *
+ * @param context 扩展上下文，用于注册提供者和管理资源
+ * @param cache 翻译缓存
+ * @param registry 翻译器注册表
+ */
+export function registerTranslationCompletion(
+  context: vscode.ExtensionContext,
+  cache: TranslationCache,
+  registry: TranslatorRegistry
+): void {
+  context.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider(
+      [{ scheme: 'file' }, { scheme: 'untitled' }],
+      new TranslationCompletionProvider(cache, registry)
+    )
+  );
+}
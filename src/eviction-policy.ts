@@ -0,0 +1,189 @@
+/**
+ * 缓存淘汰策略模块
+ *
+ * 该模块提供翻译缓存超出大小限制时选择淘汰项的策略，
+ * 支持LRU（最近最少使用）和LFU（最不经常使用）两种策略，记录访问和选择淘汰项均为O(1)
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+/**
+ * 缓存淘汰策略名称
+ */
+export type EvictionPolicyName = 'lru' | 'lfu';
+
+/**
+ * 缓存淘汰策略接口
+ * 策略只跟踪缓存键，缓存项本身由TranslationCache管理
+ */
+export interface EvictionPolicy {
+  /** 策略名称 */
+  readonly name: EvictionPolicyName;
+  /** 策略说明，用于日志输出 */
+  readonly description: string;
+
+  /**
+   * 记录新加入的缓存键
+   * @param key 缓存键
+   */
+  add(key: string): void;
+
+  /**
+   * 记录缓存键被访问
+   * @param key 缓存键
+   */
+  touch(key: string): void;
+
+  /**
+   * 移除缓存键
+   * @param key 缓存键
+   */
+  remove(key: string): void;
+
+  /**
+   * 获取下一个应被淘汰的缓存键
+   * @returns 缓存键，没有可淘汰的缓存键时返回undefined
+   */
+  victim(): string | undefined;
+
+  /**
+   * 清空所有缓存键
+   */
+  clear(): void;
+}
+
+/**
+ * LRU淘汰策略
+ * 利用Set保持插入顺序的特性，访问时将缓存键移到末尾，淘汰时取第一个缓存键
+ */
+export class LruEvictionPolicy implements EvictionPolicy {
+  public readonly name = 'lru';
+  public readonly description = '最近最少使用';
+
+  // 按访问顺序排列的缓存键，第一个为最近最少使用的缓存键
+  private keys: Set<string> = new Set<string>();
+
+  public add(key: string): void {
+    this.keys.delete(key);
+    this.keys.add(key);
+  }
+
+  public touch(key: string): void {
+    if (this.keys.delete(key)) {
+      this.keys.add(key);
+    }
+  }
+
+  public remove(key: string): void {
+    this.keys.delete(key);
+  }
+
+  public victim(): string | undefined {
+    return this.keys.values().next().value;
+  }
+
+  public clear(): void {
+    this.keys.clear();
+  }
+}
+
+/**
+ * LFU淘汰策略
+ * 按访问次数将缓存键分桶，同一访问次数的缓存键按访问顺序排列，淘汰访问次数最少的桶中最早的缓存键
+ */
+export class LfuEvictionPolicy implements EvictionPolicy {
+  public readonly name = 'lfu';
+  public readonly description = '最不经常使用';
+
+  // 缓存键的访问次数
+  private frequencies: Map<string, number> = new Map<string, number>();
+  // 按访问次数分组的缓存键
+  private buckets: Map<number, Set<string>> = new Map<number, Set<string>>();
+  // 当前最小访问次数
+  private minFrequency: number = 0;
+
+  public add(key: string): void {
+    this.remove(key);
+    this.frequencies.set(key, 1);
+    this.getBucket(1).add(key);
+    this.minFrequency = 1;
+  }
+
+  public touch(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) {
+      return;
+    }
+    this.removeFromBucket(key, frequency);
+    this.frequencies.set(key, frequency + 1);
+    this.getBucket(frequency + 1).add(key);
+    if (this.minFrequency === frequency && !this.buckets.has(frequency)) {
+      this.minFrequency = frequency + 1;
+    }
+  }
+
+  public remove(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) {
+      return;
+    }
+    this.frequencies.delete(key);
+    this.removeFromBucket(key, frequency);
+  }
+
+  public victim(): string | undefined {
+    if (this.frequencies.size === 0) {
+      return undefined;
+    }
+    // 删除缓存键后最小访问次数对应的桶可能已为空，向上查找第一个非空的桶
+    while (!this.buckets.has(this.minFrequency)) {
+      this.minFrequency++;
+    }
+    return this.buckets.get(this.minFrequency)!.values().next().value;
+  }
+
+  public clear(): void {
+    this.frequencies.clear();
+    this.buckets.clear();
+    this.minFrequency = 0;
+  }
+
+  /**
+   * 获取指定访问次数的桶，不存在时创建
+   * @param frequency 访问次数
+   * @returns 缓存键集合
+   */
+  private getBucket(frequency: number): Set<string> {
+    let bucket = this.buckets.get(frequency);
+    if (!bucket) {
+      bucket = new Set<string>();
+      this.buckets.set(frequency, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * 从指定访问次数的桶中移除缓存键，桶为空时删除该桶
+   * @param key 缓存键
+   * @param frequency 访问次数
+   */
+  private removeFromBucket(key: string, frequency: number): void {
+    const bucket = this.buckets.get(frequency);
+    if (bucket) {
+      bucket.delete(key);
+      if (bucket.size === 0) {
+        this.buckets.delete(frequency);
+      }
+    }
+  }
+}
+
+/**
+ * 根据策略名称创建缓存淘汰策略
+ * @param name 策略名称，未知的名称使用LRU策略
+ * @returns 缓存淘汰策略实例
+ */
+export function createEvictionPolicy(name: string | undefined): EvictionPolicy {
+  return name === 'lfu' ? new LfuEvictionPolicy() : new LruEvictionPolicy();
+}
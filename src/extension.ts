@@ -14,8 +14,147 @@ import * as vscode from "vscode";
 import { BaiduTranslator } from "./baidu-translator";
 // 腾讯云机器翻译API封装
 import { TencentTranslator } from "./tencent-translator";
+// 翻译器接口
+import { Translator } from "./translator";
+// 翻译器注册表
+import { TranslatorRegistry } from "./translator-registry";
+// 翻译缓存
+import { TranslationCache } from "./translation-cache";
+// 翻译缓存浏览器
+import { registerCacheBrowser } from "./cache-tree-view";
+// 工作区术语表
+import { WorkspaceGlossary } from "./glossary";
+// 语言代码
+import { getLanguageName } from "./languages";
+// 翻译语言选择
+import { registerLanguageCommands } from "./language-picker";
+// 翻译方向识别
+import { resolveTranslationDirection } from "./language-detection";
+// 悬停翻译
+import { registerTranslationHover } from "./hover-provider";
+// 注释翻译
+import { registerCommentTranslation } from "./comment-translation";
+// 翻译代码操作
+import { registerTranslationCodeActions } from "./code-actions";
+// 中文标识符补全
+import { registerTranslationCompletion } from "./completion-provider";
+// 翻译面板
+import { registerTranslationPanel } from "./translation-panel";
+// 翻译历史
+import { TranslationHistory } from "./translation-history";
+import { registerHistoryView } from "./history-tree-view";
+// 状态栏
+import { registerStatusBar } from "./status-bar";
+// 命名格式命令
+import { registerFormatCommands, rememberLastFormat } from "./format-commands";
+// 命名格式转换
+import { registerCaseConversion } from "./case-conversion";
+// 命名规范
+import {
+  getPreferredFormatAt,
+  registerNamingSettings,
+  sortByPreference,
+} from "./naming-conventions";
+// 标识符清理
+import { toIdentifier } from "./identifier-sanitizer";
+// 命名模板
+import {
+  getTemplateFormats,
+  isTemplateFormat,
+  resolveNamingFormat,
+} from "./naming-templates";
+// 标识符候选
+import {
+  CANDIDATE_GROUP_LABELS,
+  collectCandidates,
+  IdentifierCandidate,
+} from "./identifier-candidates";
+// 工作区词汇
+import { WorkspaceVocabulary } from "./workspace-vocabulary";
+// 命名偏好
+import {
+  NamingPreferences,
+  purgeLegacyFormatEntries,
+  registerNamingPreferences,
+} from "./naming-preferences";
+// 翻译并重命名符号
+import {
+  registerRenameCommand,
+  renameSymbolWithTranslation,
+} from "./rename-symbol";
+// 工作区翻译记忆
+import {
+  registerTranslationMemory,
+  WorkspaceTranslationMemory,
+} from "./translation-memory";
 // 工具函数
-import { escapeHtml } from "./utils";
+import { escapeHtml, NAMING_FORMATS } from "./utils";
+
+/**
+ * 翻译结果选项
+ *
+ * @property format - 应用到译文的格式化函数
+ * @property formatId - 命名格式标识，不是命名格式选项时为undefined
+ * @property result - 候选名称对应的英文短语，不是候选名称时为undefined
+ * @property action - 选择后执行的操作
+ */
+interface TranslationPickItem extends vscode.QuickPickItem {
+  format: (text: string) => string;
+  formatId?: string;
+  result?: string;
+  action: string;
+}
+
+/**
+ * 创建选项列表中的分隔线
+ * @param label 分隔线上显示的名称
+ * @returns 分隔线选项
+ */
+function createSeparator(label: string): TranslationPickItem {
+  return {
+    label,
+    kind: vscode.QuickPickItemKind.Separator,
+    format: (text: string) => text,
+    action: "separator",
+  };
+}
+
+/**
+ * 创建分组的候选名称选项，每个分组前添加分隔线
+ * @param candidates 按分组排列的候选名称
+ * @param formatId 候选名称使用的命名格式标识
+ * @returns 候选名称选项
+ */
+function createCandidateItems(
+  candidates: IdentifierCandidate[],
+  formatId: string
+): TranslationPickItem[] {
+  const items: TranslationPickItem[] = [];
+  let previous: IdentifierCandidate | undefined;
+  for (const candidate of candidates) {
+    if (previous?.group !== candidate.group) {
+      items.push(
+        createSeparator(`候选名称 · ${CANDIDATE_GROUP_LABELS[candidate.group]}`)
+      );
+    }
+    items.push({
+      label: candidate.name,
+      description: `${candidate.phrase} · ${candidate.sources.join("、")}`,
+      format: () => candidate.name,
+      formatId,
+      result: candidate.phrase,
+      action: "replace",
+    });
+    previous = candidate;
+  }
+  return items;
+}
+
+/**
+ * 所有翻译器共享的翻译缓存
+ * 保存在模块级变量中，以便在插件停用时将尚未写入的缓存记录写入文件
+ */
+let translationCache: TranslationCache | undefined;
 
 /**
  * 格式化字节大小为人类可读的格式
@@ -47,43 +186,71 @@ export async function activate(context: vscode.ExtensionContext) {
     'Congratulations, your extension "uli-translation" is now active!'
   );
 
-  // 创建百度翻译器实例，并传入扩展上下文以启用缓存功能
-  const baiduTranslator = new BaiduTranslator(context);
-
-  // 创建腾讯翻译器实例，并传入扩展上下文以启用缓存功能
-  const tencentTranslator = new TencentTranslator(context);
-
   // 从配置中读取缓存设置
   const cacheConfig = vscode.workspace.getConfiguration("uliTranslation.cache");
   const expirationDays = cacheConfig.get<number>("expirationDays") || 3;
   const maxCacheSizeMB = cacheConfig.get<number>("maxSizeMB") || 20;
+  const evictionPolicy = cacheConfig.get<string>("evictionPolicy") || "lru";
+
+  // 初始化所有翻译器共享的翻译缓存，使用配置的过期时间、大小限制和淘汰策略
+  const cache = new TranslationCache(
+    context,
+    expirationDays,
+    maxCacheSizeMB,
+    evictionPolicy
+  );
+  translationCache = cache;
+
+  // 删除旧版本按命名格式写入翻译缓存的结果，命名格式的选择改由命名偏好记录
+  purgeLegacyFormatEntries(context, cache);
+
+  // 加载工作区翻译记忆，翻译时优先于全局翻译缓存使用
+  const memory = new WorkspaceTranslationMemory();
+
+  // 加载工作区术语表，术语变化时使包含这些术语的翻译缓存失效（手动修正的翻译除外）
+  const glossary = new WorkspaceGlossary();
+  context.subscriptions.push(
+    glossary,
+    glossary.onDidChange((terms) => {
+      const removed = cache.deleteWhere(
+        (entry) =>
+          !entry.override && terms.some((term) => entry.text.includes(term))
+      );
+      console.log(`术语表已更新，已删除${removed}条包含变化术语的翻译缓存`);
+    })
+  );
+
+  // 加载翻译历史，与翻译缓存相互独立，清空缓存不会清除翻译历史
+  const history = new TranslationHistory(context);
+  context.subscriptions.push(history);
+
+  // 加载命名偏好，记录每个原文在每种文件语言中选择的命名格式和候选名称
+  const preferences = new NamingPreferences(context);
+
+  // 创建翻译器注册表，并注册所有翻译器（传入共享缓存以启用缓存功能，传入术语表以统一术语译文）
+  const registry = new TranslatorRegistry(memory);
+  // 百度翻译器
+  registry.register(new BaiduTranslator(cache, glossary));
+  // 腾讯翻译器
+  registry.register(new TencentTranslator(cache, glossary));
 
-  // 初始化翻译缓存，使用配置的过期时间和大小限制
-  baiduTranslator.initCache(context, expirationDays, maxCacheSizeMB);
-  tencentTranslator.initCache(context, expirationDays, maxCacheSizeMB);
+  // 工作区词汇，用于按项目中已有的用词为候选名称排序，首次使用时才扫描工作区
+  const vocabulary = new WorkspaceVocabulary();
+  context.subscriptions.push(vocabulary);
 
   // 设置定时器，每30分钟记录一次缓存性能指标
   const cacheMetricsInterval = setInterval(() => {
-    const baiduMetrics = baiduTranslator.getCacheMetrics();
-    if (baiduMetrics) {
-      console.log(
-        `百度翻译缓存性能指标 - 命中率: ${baiduMetrics.hitRate.toFixed(
-          2
-        )}%, 平均响应时间: ${baiduMetrics.avgResponseTime.toFixed(
-          2
-        )}ms, 缓存大小: ${formatSize(baiduMetrics.size)}`
-      );
-    }
-
-    const tencentMetrics = tencentTranslator.getCacheMetrics();
-    if (tencentMetrics) {
-      console.log(
-        `腾讯翻译缓存性能指标 - 命中率: ${tencentMetrics.hitRate.toFixed(
-          2
-        )}%, 平均响应时间: ${tencentMetrics.avgResponseTime.toFixed(
-          2
-        )}ms, 缓存大小: ${formatSize(tencentMetrics.size)}`
-      );
+    for (const translator of registry.getAll()) {
+      const metrics = translator.getCacheMetrics();
+      if (metrics) {
+        console.log(
+          `${translator.displayName}缓存性能指标 - 命中率: ${metrics.hitRate.toFixed(
+            2
+          )}%, 平均响应时间: ${metrics.avgResponseTime.toFixed(
+            2
+          )}ms, 缓存条目: ${metrics.entries}, 缓存大小: ${formatSize(metrics.size)}`
+        );
+      }
     }
   }, 30 * 60 * 1000); // 30分钟
 
@@ -93,38 +260,10 @@ export async function activate(context: vscode.ExtensionContext) {
   });
 
   // 检查是否首次安装或配置无效，并提示用户进行配置
-  // 获取用户默认选择的翻译API
-  const translationConfig = vscode.workspace.getConfiguration("uliTranslation");
-  const defaultTranslator = translationConfig.get<"baidu" | "tencent">(
-    "defaultTranslator",
-    "baidu"
-  );
-  
-  // 首先检查默认翻译API的配置
-  let defaultConfigValid = false;
-  if (defaultTranslator === "baidu") {
-    defaultConfigValid = await checkAndPromptForConfiguration(
-      baiduTranslator,
-      "baidu"
-    );
-    // 只有当默认的百度翻译API配置无效时，才检查腾讯云翻译API
-    if (!defaultConfigValid) {
-      await checkAndPromptForConfiguration(
-        tencentTranslator,
-        "tencent"
-      );
-    }
-  } else {
-    defaultConfigValid = await checkAndPromptForConfiguration(
-      tencentTranslator,
-      "tencent"
-    );
-    // 只有当默认的腾讯云翻译API配置无效时，才检查百度翻译API
-    if (!defaultConfigValid) {
-      await checkAndPromptForConfiguration(
-        baiduTranslator,
-        "baidu"
-      );
+  // 首先检查默认翻译API的配置，只有当默认翻译API配置无效时，才依次检查其他翻译API
+  for (const translator of registry.getOrdered()) {
+    if (await checkAndPromptForConfiguration(translator)) {
+      break;
     }
   }
 
@@ -135,76 +274,38 @@ export async function activate(context: vscode.ExtensionContext) {
   const configListener = vscode.workspace.onDidChangeConfiguration(
     async (event) => {
       // 获取用户默认选择的翻译API
-      const currentConfig = vscode.workspace.getConfiguration("uliTranslation");
-      const defaultTranslator = currentConfig.get<"baidu" | "tencent">(
-        "defaultTranslator",
-        "baidu"
-      );
+      const defaultTranslator = registry.getDefaultId();
       
       // 检查是否修改了默认翻译器设置
       const affectsDefaultTranslator = event.affectsConfiguration(
         "uliTranslation.defaultTranslator"
       );
-      
-      // 检查是否修改了百度翻译API相关配置
-      const affectsBaiduConfig = event.affectsConfiguration(
-        "uliTranslation.baidu"
-      );
 
-      // 检查是否修改了腾讯翻译API相关配置
-      const affectsTencentConfig = event.affectsConfiguration(
-        "uliTranslation.tencent"
-      );
+      // 找出配置被修改的翻译器
+      const affectedTranslators = registry
+        .getAll()
+        .filter((translator) =>
+          event.affectsConfiguration(translator.configSection)
+        );
 
-      // 如果修改了百度翻译API配置，则重新检查配置有效性
-      if (affectsBaiduConfig) {
-        // 重新加载百度翻译器配置
-        baiduTranslator.reloadConfig();
-        
-        // 如果百度翻译是默认翻译器，则检查配置并提示用户
-        if (defaultTranslator === "baidu") {
-          const baiduValid = await checkAndPromptForConfiguration(baiduTranslator, "baidu", false);
-          
-          // 只有当默认的百度翻译API配置无效时，才检查腾讯云翻译API
-          if (!baiduValid && affectsDefaultTranslator) {
-            await checkAndPromptForConfiguration(tencentTranslator, "tencent", false);
-          }
-        }
-      }
+      for (const translator of affectedTranslators) {
+        // 重新加载翻译器配置
+        translator.reloadConfig();
+
+        // 如果该翻译器是默认翻译器，则检查配置并提示用户
+        if (translator.id === defaultTranslator) {
+          const valid = await checkAndPromptForConfiguration(translator, false);
 
-      // 如果修改了腾讯翻译API配置，则重新检查配置有效性
-      if (affectsTencentConfig) {
-        // 重新加载腾讯翻译器配置
-        tencentTranslator.reloadConfig();
-        
-        // 如果腾讯云翻译是默认翻译器，则检查配置并提示用户
-        if (defaultTranslator === "tencent") {
-          const tencentValid = await checkAndPromptForConfiguration(tencentTranslator, "tencent", false);
-          
-          // 只有当默认的腾讯云翻译API配置无效时，才检查百度翻译API
-          if (!tencentValid && affectsDefaultTranslator) {
-            await checkAndPromptForConfiguration(baiduTranslator, "baidu", false);
+          // 只有当默认翻译API配置无效时，才检查其他翻译API
+          if (!valid && affectsDefaultTranslator) {
+            await checkFallbackConfiguration(registry, translator);
           }
         }
       }
       
       // 如果修改了默认翻译器设置，则检查新的默认翻译器配置
-      if (affectsDefaultTranslator && !affectsBaiduConfig && !affectsTencentConfig) {
-        if (defaultTranslator === "baidu") {
-          const baiduValid = await checkAndPromptForConfiguration(baiduTranslator, "baidu", false);
-          
-          // 只有当默认的百度翻译API配置无效时，才检查腾讯云翻译API
-          if (!baiduValid) {
-            await checkAndPromptForConfiguration(tencentTranslator, "tencent", false);
-          }
-        } else {
-          const tencentValid = await checkAndPromptForConfiguration(tencentTranslator, "tencent", false);
-          
-          // 只有当默认的腾讯云翻译API配置无效时，才检查百度翻译API
-          if (!tencentValid) {
-            await checkAndPromptForConfiguration(baiduTranslator, "baidu", false);
-          }
-        }
+      if (affectsDefaultTranslator && affectedTranslators.length === 0) {
+        await checkFallbackConfiguration(registry);
       }
 
       // 检查是否修改了缓存相关配置
@@ -212,7 +313,7 @@ export async function activate(context: vscode.ExtensionContext) {
         "uliTranslation.cache"
       );
 
-      // 如果修改了缓存配置，则重新初始化缓存
+      // 如果修改了缓存配置，则更新缓存设置
       if (affectsCacheConfig) {
         // 获取新的缓存配置
         const config = vscode.workspace.getConfiguration(
@@ -220,13 +321,11 @@ export async function activate(context: vscode.ExtensionContext) {
         );
         const expirationDays = config.get<number>("expirationDays") || 3;
         const maxCacheSizeMB = config.get<number>("maxSizeMB") || 20;
+        const evictionPolicy = config.get<string>("evictionPolicy") || "lru";
 
-        // 重新初始化百度翻译器的缓存
-        baiduTranslator.initCache(context, expirationDays, maxCacheSizeMB);
-        // 重新初始化腾讯翻译器的缓存
-        tencentTranslator.initCache(context, expirationDays, maxCacheSizeMB);
+        cache.configure(expirationDays, maxCacheSizeMB, evictionPolicy);
         console.log(
-          `缓存配置已更新：过期时间=${expirationDays}天，大小限制=${maxCacheSizeMB}MB`
+          `缓存配置已更新：过期时间=${expirationDays}天，大小限制=${maxCacheSizeMB}MB，淘汰策略=${evictionPolicy}`
         );
       }
 
@@ -247,30 +346,30 @@ export async function activate(context: vscode.ExtensionContext) {
   const showCacheMetricsDisposable = vscode.commands.registerCommand(
     "uli-translation.showCacheMetrics",
     async () => {
-      // 获取百度翻译缓存性能指标
-      const baiduMetrics = baiduTranslator.getCacheMetrics();
-      // 获取腾讯翻译缓存性能指标
-      const tencentMetrics = tencentTranslator.getCacheMetrics();
-
-      if (baiduMetrics || tencentMetrics) {
-        let message = "缓存性能指标:\n";
-
-        // 添加百度翻译缓存性能指标
-        if (baiduMetrics) {
-          message += `\n百度翻译缓存:\n- 命中率: ${baiduMetrics.hitRate.toFixed(
-            2
-          )}%\n- 平均响应时间: ${baiduMetrics.avgResponseTime.toFixed(
-            2
-          )}ms\n- 缓存大小: ${formatSize(baiduMetrics.size)}\n`;
-        }
-
-        // 添加腾讯翻译缓存性能指标
-        if (tencentMetrics) {
-          message += `\n腾讯云翻译缓存:\n- 命中率: ${tencentMetrics.hitRate.toFixed(
-            2
-          )}%\n- 平均响应时间: ${tencentMetrics.avgResponseTime.toFixed(
-            2
-          )}ms\n- 缓存大小: ${formatSize(tencentMetrics.size)}`;
+      // 获取所有翻译器的缓存性能指标
+      const metricsList = registry
+        .getAll()
+        .map((translator) => ({ translator, metrics: translator.getCacheMetrics() }));
+
+      if (metricsList.some(({ metrics }) => metrics)) {
+        const totalMetrics = cache.getMetrics();
+        let message = `缓存性能指标:\n\n总计:\n- 缓存条目: ${
+          totalMetrics.entries
+        }\n- 缓存大小: ${formatSize(totalMetrics.size)}\n`;
+
+        // 添加各翻译器的缓存性能指标
+        for (const { translator, metrics } of metricsList) {
+          if (metrics) {
+            message += `\n${translator.displayName}缓存:\n- 命中率: ${metrics.hitRate.toFixed(
+              2
+            )}%\n- 使用其他翻译API缓存的命中次数: ${
+              metrics.crossProviderHits
+            }\n- 平均响应时间: ${metrics.avgResponseTime.toFixed(
+              2
+            )}ms\n- 缓存条目: ${metrics.entries}\n- 缓存大小: ${formatSize(
+              metrics.size
+            )}\n`;
+          }
         }
 
         // 显示性能指标
@@ -289,24 +388,31 @@ export async function activate(context: vscode.ExtensionContext) {
   const clearCacheDisposable = vscode.commands.registerCommand(
     "uli-translation.clearCache",
     () => {
-      let cacheCleared = false;
-
-      // 清空百度翻译缓存
-      if (baiduTranslator.cache) {
-        baiduTranslator.cache.clear();
-        cacheCleared = true;
-      }
-
-      // 清空腾讯翻译缓存
-      if (tencentTranslator.cache) {
-        tencentTranslator.cache.clear();
-        cacheCleared = true;
-      }
+      // 清空所有翻译器共享的缓存，手动修正的翻译会被保留
+      const keptCount = cache.clear();
+      vscode.window.showInformationMessage(
+        keptCount > 0
+          ? `所有翻译缓存已清空，保留了${keptCount}条手动修正的翻译`
+          : "所有翻译缓存已清空"
+      );
+    }
+  );
 
-      if (cacheCleared) {
-        vscode.window.showInformationMessage("所有翻译缓存已清空");
-      } else {
-        vscode.window.showWarningMessage("缓存未初始化");
+  /**
+   * 注册打开术语表命令
+   * 该命令打开工作区术语表文件，文件不存在时创建示例术语表
+   */
+  const openGlossaryDisposable = vscode.commands.registerCommand(
+    "uli-translation.openGlossary",
+    async () => {
+      try {
+        await glossary.open();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `打开术语表失败: ${
+            error instanceof Error ? error.message : "未知错误"
+          }`
+        );
       }
     }
   );
@@ -319,66 +425,37 @@ export async function activate(context: vscode.ExtensionContext) {
     "uli-translation.translate",
     async () => {
       try {
-        // 检查是否有可用的翻译API配置
-        const baiduValid = baiduTranslator.isConfigValid();
-        const tencentValid = tencentTranslator.isConfigValid();
-
-        if (!baiduValid && !tencentValid) {
-          // 两种API配置都无效，提示用户进行设置
-          const message =
-            "翻译API配置无效，请先配置百度翻译API或腾讯云机器翻译API";
+        // 确定要使用的翻译器：优先使用默认翻译器，默认翻译器配置无效时使用其他配置有效的翻译器
+        const translator = registry.resolve();
+
+        if (!translator) {
+          // 所有翻译API配置都无效，提示用户进行设置
+          const message = `翻译API配置无效，请先配置${registry
+            .getAll()
+            .map((item) => item.apiName)
+            .join("或")}`;
+          const actions = registry
+            .getAll()
+            .map((item) => `配置${item.shortName}翻译`);
           const result = await vscode.window.showWarningMessage(
             message,
-            "配置百度翻译",
-            "配置腾讯翻译",
+            ...actions,
             "取消"
           );
 
           // 根据用户选择打开相应的设置页面
-          if (result === "配置百度翻译") {
-            await vscode.commands.executeCommand(
-              "workbench.action.openSettings",
-              "uliTranslation.baidu"
-            );
-          } else if (result === "配置腾讯翻译") {
+          const selected = registry
+            .getAll()
+            .find((item) => result === `配置${item.shortName}翻译`);
+          if (selected) {
             await vscode.commands.executeCommand(
               "workbench.action.openSettings",
-              "uliTranslation.tencent"
+              selected.configSection
             );
           }
           return;
         }
 
-        // 确定要使用的翻译器
-        let translator: BaiduTranslator | TencentTranslator;
-        let apiType: "baidu" | "tencent";
-
-        // 从配置中获取默认翻译器设置
-        const config = vscode.workspace.getConfiguration("uliTranslation");
-        const defaultTranslator = config.get<"baidu" | "tencent">(
-          "defaultTranslator",
-          "baidu"
-        );
-
-        // 根据默认设置和可用性确定要使用的翻译器
-        if (defaultTranslator === "baidu" && baiduValid) {
-          // 用户默认选择百度翻译且配置有效
-          apiType = "baidu";
-          translator = baiduTranslator;
-        } else if (defaultTranslator === "tencent" && tencentValid) {
-          // 用户默认选择腾讯云翻译且配置有效
-          apiType = "tencent";
-          translator = tencentTranslator;
-        } else if (baiduValid) {
-          // 默认选择的翻译器配置无效，但百度翻译配置有效
-          apiType = "baidu";
-          translator = baiduTranslator;
-        } else {
-          // 默认选择的翻译器配置无效，使用腾讯云翻译（此时腾讯云翻译配置必定有效）
-          apiType = "tencent";
-          translator = tencentTranslator;
-        }
-
         // 获取当前活动的编辑器
         const editor = vscode.window.activeTextEditor;
         if (!editor) {
@@ -396,138 +473,259 @@ export async function activate(context: vscode.ExtensionContext) {
           return;
         }
 
+        // 确定翻译方向：源语言为自动检测时，识别选中文本的语言并按配置的映射选择目标语言
+        const { from, to, detected } = await resolveTranslationDirection(
+          text,
+          registry
+        );
+
         // 在状态栏显示翻译进行中的提示
-        const apiName = apiType === "baidu" ? "百度" : "腾讯云";
         const statusBarMessage = vscode.window.setStatusBarMessage(
-          `正在使用${apiName}翻译为英文...`
+          `正在使用${translator.displayName}${
+            detected ? `将${getLanguageName(detected)}` : ""
+          }翻译为${getLanguageName(to)}...`
         );
 
         try {
-          // 调用选定的翻译API进行翻译（自动检测语言到英文）
-          const result = await translator.translate(text, "auto", "en");
+          // 调用翻译API进行翻译，默认翻译器失败或不支持该语言对时自动切换到备用翻译器
+          const outcome = await registry.translate(text, from, to);
+          const result = outcome.text;
 
           // 清除状态栏消息
           statusBarMessage.dispose();
 
+          // 翻译结果丢失了占位符或标记时提示用户，不插入破损的文本
+          if (outcome.lostPlaceholders.length > 0) {
+            const action = await vscode.window.showWarningMessage(
+              `译文中丢失了占位符或标记：${outcome.lostPlaceholders.join(
+                "、"
+              )}，为避免插入错误的文本，已取消本次翻译`,
+              "查看译文"
+            );
+            if (action === "查看译文") {
+              vscode.window.showInformationMessage(
+                `原文：${text}\n\n译文：${result}`,
+                { modal: true }
+              );
+            }
+            return;
+          }
+
+          // 翻译API丢弃了术语的占位标记时，译文中没有使用术语表规定的译文，提示用户检查
+          if (outcome.lostTerms.length > 0) {
+            vscode.window.showWarningMessage(
+              `译文中没有使用术语表规定的译文：${outcome.lostTerms
+                .map((term) => `${term.source}→${term.target}`)
+                .join("、")}，请检查后再使用`
+            );
+          }
+
           // 使用QuickPick显示翻译结果和选项
-          // 导入格式化函数
-          const {
-            toCamelCase,
-            toPascalCase,
-            toSnakeCase,
-            toKebabCase,
-            toUpperKebabCase,
-            toLowerWords,
-            toTitleWords,
-            toConstantCase,
-          } = require("./utils");
-
-          /* 创建格式化选项列表 */
-          const items = [
-            {
-              label: "驼峰格式(小) camelCase",
-              description: `${toCamelCase(result)}`,
-              format: toCamelCase,
-              action: "format",
-            },
-            {
-              label: "驼峰格式(大) PascalCase",
-              description: `${toPascalCase(result)}`,
-              format: toPascalCase,
-              action: "format",
-            },
-            {
-              label: "下划线格式 snake_case",
-              description: `${toSnakeCase(result)}`,
-              format: toSnakeCase,
-              action: "format",
-            },
-            {
-              label: "中划线格式(小) kebab-case",
-              description: `${toKebabCase(result)}`,
-              format: toKebabCase,
-              action: "format",
-            },
-            {
-              label: "中划线格式(大) Kebab-Case",
-              description: `${toUpperKebabCase(result)}`,
-              format: toUpperKebabCase,
-              action: "format",
-            },
-            {
-              label: "分词格式(小) lower words",
-              description: `${toLowerWords(result)}`,
-              format: toLowerWords,
-              action: "format",
-            },
-            {
-              label: "分词格式(大) Title Words",
-              description: `${toTitleWords(result)}`,
-              format: toTitleWords,
-              action: "format",
-            },
-            {
-              label: "常量格式 CONSTANT_CASE",
-              description: `${toConstantCase(result)}`,
-              format: toConstantCase,
-              action: "format",
-            },
+          /* 创建格式化选项列表，符合当前文件语言和上下文命名规范的格式排在最前面，用户定义的命名模板紧随其后 */
+          const languageId = editor.document.languageId;
+          const preferred = getPreferredFormatAt(
+            editor.document,
+            selection.start
+          );
+          const [preferredFormat, ...otherFormats] = sortByPreference(
+            NAMING_FORMATS,
+            preferred
+          );
+          const templateFormats = getTemplateFormats(languageId);
+          const items: TranslationPickItem[] = [
+            ...[preferredFormat, ...templateFormats, ...otherFormats].map(
+              (namingFormat) => {
+                const format = isTemplateFormat(namingFormat)
+                  ? namingFormat.format
+                  : (text: string) =>
+                      toIdentifier(text, namingFormat, languageId) ?? "";
+                return {
+                  label: namingFormat.label,
+                  description: format(result),
+                  format,
+                  formatId: namingFormat.id,
+                  action: "format",
+                };
+              }
+            ),
             {
               label: "查看详情",
-              description: "查看完整的原文和译文",
+              description: "在翻译面板中查看完整的原文、译文和词典释义",
               format: (text: string) => text,
               action: "detail",
             },
           ];
 
-          // 为每种格式添加替换选项
+          // 为每种格式添加替换选项，译文无法转换为合法标识符的格式（结果为空）不提供
           const replaceItems = items
-            .filter((item) => item.action === "format")
-            .map((item) => ({
+            .filter((item) => item.action === "format" && item.description)
+            .map((item): TranslationPickItem => ({
               label: `替换为${item.label}`,
-              description: `将选中文本「${text}」替换为: ${item.description}`,
+              description: `${
+                item.formatId === preferred.id ? "（推荐）" : ""
+              }${
+                templateFormats.some(
+                  (namingFormat) => namingFormat.id === item.formatId
+                )
+                  ? "（命名模板）"
+                  : ""
+              }将选中文本「${text}」替换为: ${item.description}`,
               format: item.format,
+              formatId: item.formatId,
               action: "replace",
             }));
 
           // 创建复制到剪贴板选项
-          const copyItem = {
+          const copyItem: TranslationPickItem = {
             label: "复制结果",
             description: "将翻译结果复制到剪贴板",
             format: (text: string) => text,
             action: "copy",
           };
 
+          // 创建翻译并重命名符号的选项，通过语言的重命名功能同时更新所有引用
+          const renameItem: TranslationPickItem = {
+            label: "翻译并重命名符号",
+            description: "使用译文重命名光标处的符号，并更新所有文件中的引用",
+            format: (text: string) => text,
+            action: "rename",
+          };
+
+          // 创建替换为译文原文的选项，用于阅读类翻译
+          const plainReplaceItem: TranslationPickItem = {
+            label: "替换为译文",
+            description: `将选中文本替换为: ${result}`,
+            format: (text: string) => text,
+            action: "replace",
+          };
+
+          // 只有译文要写入代码（翻译为英文且选中的是单行文本）时才提供命名格式选项，
+          // 阅读类翻译（如英文翻译为中文）只提供替换、复制和查看详情
+          const intoCode = to === "en" && !text.includes("\n");
+          const detailItem = items.find((item) => item.action === "detail")!;
+          if (
+            intoCode &&
+            items.some((item) => item.action === "format" && !item.description)
+          ) {
+            vscode.window.showWarningMessage(
+              `译文「${result}」无法转换为合法的标识符，已跳过对应的命名格式`
+            );
+          }
+
           // 合并选项列表，确保复制选项在最后
-          const allItems = [...replaceItems, copyItem];
+          const allItems = intoCode
+            ? [...replaceItems, renameItem, copyItem]
+            : [plainReplaceItem, copyItem, detailItem];
 
           // 保存当前编辑器的选择区域，以便在QuickPick回调中使用
           const currentSelection = editor.selection;
 
+          // 上次为该原文在当前语言中选择的名称排在最前面
+          const lastChoice = intoCode
+            ? preferences.get(text, from, languageId)
+            : undefined;
+          const lastChoiceItems: TranslationPickItem[] = lastChoice
+            ? [
+                createSeparator("上次选择"),
+                {
+                  label: lastChoice.name,
+                  description: `${lastChoice.result} · ${
+                    resolveNamingFormat(lastChoice.formatId, languageId)
+                      ?.label ?? lastChoice.formatId
+                  }`,
+                  format: () => lastChoice.name,
+                  formatId: lastChoice.formatId,
+                  result: lastChoice.result,
+                  action: "replace",
+                },
+              ]
+            : [];
+
+          // 译文写入代码时，在命名格式之前显示来自多个来源的候选名称，
+          // 收集期间选项列表显示为加载状态，收集失败时只显示命名格式
+          const candidatesEnabled = vscode.workspace
+            .getConfiguration("uliTranslation.candidates")
+            .get<boolean>("enable", true);
+          const candidateItems: Thenable<TranslationPickItem[]> =
+            intoCode && candidatesEnabled
+              ? collectCandidates(registry, vocabulary, {
+                  text,
+                  from,
+                  primary: outcome,
+                  namingFormat: preferred,
+                  languageId,
+                }).then(
+                  (candidates) =>
+                    createCandidateItems(
+                      candidates.filter(
+                        (candidate) => candidate.name !== lastChoice?.name
+                      ),
+                      preferred.id
+                    ),
+                  (error) => {
+                    console.warn(
+                      `收集候选名称失败: ${
+                        error instanceof Error ? error.message : error
+                      }`
+                    );
+                    return [];
+                  }
+                )
+              : Promise.resolve([]);
+          const pickItems = candidateItems.then((items) => {
+            const leadingItems = [...lastChoiceItems, ...items];
+            return leadingItems.length > 0
+              ? [...leadingItems, createSeparator("命名格式"), ...allItems]
+              : allItems;
+          });
+
           // 显示翻译结果和选项
           vscode.window
-            .showQuickPick(allItems, {
-              placeHolder: `译文: ${
+            .showQuickPick(pickItems, {
+              placeHolder: `译文(${outcome.sourceName}): ${
                 result.length > 50 ? result.substring(0, 50) + "..." : result
               }`,
-              title: "选择翻译格式",
+              title: `${intoCode ? "选择翻译格式" : "翻译结果"} - 由${
+                outcome.sourceName
+              }提供${
+                outcome.failures.length > 0
+                  ? `（${outcome.failures
+                      .map((failure) => failure.translator.shortName)
+                      .join("、")}调用失败，已自动切换）`
+                  : ""
+              }${
+                outcome.glossaryHits.length > 0
+                  ? ` · 术语表: ${outcome.glossaryHits
+                      .map((hit) => `${hit.source}→${hit.target}`)
+                      .join("、")}`
+                  : outcome.remoteGlossary
+                  ? " · 已使用翻译API的术语库"
+                  : ""
+              }`,
               matchOnDescription: true,
             })
             .then((selectedItem) => {
+              // 记录翻译历史，关闭选项列表时同样记录，只是不记录命名格式
+              history.add({
+                text,
+                result: selectedItem?.result ?? result,
+                from,
+                to,
+                provider: outcome.sourceName,
+                format: selectedItem?.formatId,
+                file: vscode.workspace.asRelativePath(editor.document.uri),
+                languageId: editor.document.languageId,
+              });
+
               if (selectedItem) {
+                // 记录上次使用的命名格式，供按上次的命名格式翻译的命令使用
+                if (selectedItem.formatId) {
+                  rememberLastFormat(context, selectedItem.formatId);
+                }
+
                 // 应用格式化
                 const formattedText = selectedItem.format(result);
 
-                // 将格式化后的结果缓存
-                if (
-                  translator.cache &&
-                  selectedItem.action !== "detail" &&
-                  selectedItem.action !== "copy"
-                ) {
-                  const cacheKey = `${text}|${selectedItem.label}`;
-                  translator.cache.set(cacheKey, formattedText, "auto", "en");
-                }
-
                 // 根据不同的操作类型执行相应的动作
                 switch (selectedItem.action) {
                   case "copy":
@@ -540,10 +738,12 @@ export async function activate(context: vscode.ExtensionContext) {
                     break;
 
                   case "detail":
-                    // 显示详细结果
-                    vscode.window.showInformationMessage(
-                      `原文：${text}\n\n译文：${result}`,
-                      { modal: true }
+                    // 在翻译面板中显示详细结果
+                    vscode.commands.executeCommand(
+                      "uli-translation.openTranslationPanel",
+                      text,
+                      from,
+                      to
                     );
                     break;
 
@@ -556,6 +756,19 @@ export async function activate(context: vscode.ExtensionContext) {
                     });
                     break;
 
+                  case "rename":
+                    // 选择命名格式后重命名符号
+                    renameSymbolWithTranslation(
+                      editor.document,
+                      currentSelection.start,
+                      result
+                    ).then(undefined, (error: Error) => {
+                      vscode.window.showErrorMessage(
+                        `重命名符号失败: ${error.message}`
+                      );
+                    });
+                    break;
+
                   case "replace":
                     // 替换编辑器中选中的文本
                     if (editor && !currentSelection.isEmpty) {
@@ -565,6 +778,17 @@ export async function activate(context: vscode.ExtensionContext) {
                         })
                         .then((success) => {
                           if (success) {
+                            // 记录命名偏好，再次翻译相同的原文时排在最前面
+                            if (intoCode && selectedItem.formatId) {
+                              preferences.record({
+                                text,
+                                from,
+                                languageId,
+                                formatId: selectedItem.formatId,
+                                result: selectedItem.result ?? result,
+                                name: formattedText,
+                              });
+                            }
                             vscode.window.showInformationMessage(
                               `已将选中文本替换为${selectedItem.label.replace(
                                 "替换为",
@@ -603,14 +827,60 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // 注册翻译缓存浏览器视图
+  registerCacheBrowser(context, cache, registry);
+
+  // 注册工作区翻译记忆以及导出、导入翻译缓存的命令
+  registerTranslationMemory(context, cache, registry, memory);
+
+  // 注册选择翻译语言的命令
+  registerLanguageCommands(context, registry);
+
+  // 注册悬停翻译
+  registerTranslationHover(context, registry);
+
+  // 注册注释翻译
+  registerCommentTranslation(context, cache, registry);
+
+  // 注册翻译并重命名符号的命令
+  registerRenameCommand(context, registry);
+
+  // 注册包含中文的标识符、字符串和注释上的翻译代码操作
+  registerTranslationCodeActions(context, registry);
+
+  // 注册中文标识符补全
+  registerTranslationCompletion(context, cache, registry);
+
+  // 注册翻译面板
+  registerTranslationPanel(context, registry, history);
+
+  // 注册翻译历史视图
+  registerHistoryView(context, history);
+
+  // 注册显示翻译API和翻译语言的状态栏
+  registerStatusBar(context, registry);
+
+  // 应用命名格式转换的设置
+  registerNamingSettings(context);
+
+  // 注册各命名格式的翻译命令
+  registerFormatCommands(context, registry, history, preferences);
+
+  // 注册按上次的选择替换和清空命名偏好的命令
+  registerNamingPreferences(context, preferences);
+
+  // 注册不经过翻译的命名格式转换命令
+  registerCaseConversion(context);
+
   // 将命令添加到订阅列表中，确保插件停用时正确清理资源
   context.subscriptions.push(translateDisposable);
   context.subscriptions.push(showCacheMetricsDisposable);
   context.subscriptions.push(clearCacheDisposable);
+  context.subscriptions.push(openGlossaryDisposable);
 
   // 输出插件已准备就绪的消息
   console.log(
-    "uli-translation插件已准备就绪，可以使用Ctrl+T/Cmd+T快捷键将选中文本翻译为英文"
+    "uli-translation插件已准备就绪，可以使用Ctrl+T/Cmd+T快捷键翻译选中文本"
   );
 }
 
@@ -619,7 +889,9 @@ export async function activate(context: vscode.ExtensionContext) {
  * 当插件被停用时调用此函数，用于清理资源
  */
 export function deactivate() {
-  // 目前没有需要清理的资源
+  // 将尚未写入的翻译缓存记录写入文件，避免最后一批翻译结果丢失
+  translationCache?.flush();
+  translationCache = undefined;
   console.log("uli-translation插件已停用");
 }
 
@@ -631,29 +903,20 @@ export function deactivate() {
  * 2. 用户修改了翻译API相关配置后
  *
  * @param translator 翻译器实例，用于检查配置有效性
- * @param apiType 翻译API类型，'baidu'或'tencent'
  * @param isInitialCheck 是否是初始检查，默认为true
  * @returns Promise<boolean> 配置是否有效
  */
 async function checkAndPromptForConfiguration(
-  translator: BaiduTranslator | TencentTranslator,
-  apiType: "baidu" | "tencent",
+  translator: Translator,
   isInitialCheck: boolean = true
 ): Promise<boolean> {
   try {
     // 检查配置是否有效
     if (!translator.isConfigValid()) {
-      // 根据API类型和是否是初始检查选择不同的提示消息
-      let message = "";
-      if (apiType === "baidu") {
-        message = isInitialCheck
-          ? "欢迎使用uli-translation插件！请先配置百度翻译API的APPID和密钥。"
-          : "百度翻译API配置无效，请设置APPID和密钥。";
-      } else {
-        message = isInitialCheck
-          ? "欢迎使用uli-translation插件！请先配置腾讯云机器翻译API的SecretId和SecretKey。"
-          : "腾讯云机器翻译API配置无效，请设置SecretId和SecretKey。";
-      }
+      // 根据是否是初始检查选择不同的提示消息
+      const message = isInitialCheck
+        ? `欢迎使用uli-translation插件！请先配置${translator.apiName}的${translator.credentialHint}。`
+        : `${translator.apiName}配置无效，请设置${translator.credentialHint}。`;
 
       // 显示警告消息，并提供操作按钮
       const result = await vscode.window.showWarningMessage(
@@ -666,34 +929,45 @@ async function checkAndPromptForConfiguration(
       if (result === "前往设置") {
         await vscode.commands.executeCommand(
           "workbench.action.openSettings",
-          `uliTranslation.${apiType}`
+          translator.configSection
         );
       }
       return false;
-    } else if (isInitialCheck) {
-      // 配置有效且是初次检查，显示成功消息
-      const apiName = apiType === "baidu" ? "百度翻译API" : "腾讯云机器翻译API";
-      // vscode.window.showInformationMessage(
-      //   `${apiName}配置有效，可以开始使用翻译功能了！`
-      // );
-      return true;
     }
     return true;
   } catch (error) {
     // 处理检查配置过程中可能出现的错误
-    console.error(
-      `检查${apiType === "baidu" ? "百度" : "腾讯"}翻译API配置时出错:`,
-      error
-    );
+    console.error(`检查${translator.shortName}翻译API配置时出错:`, error);
     vscode.window.showErrorMessage(
-      `检查${
-        apiType === "baidu" ? "百度" : "腾讯"
-      }翻译API配置时出错，请重新启动VSCode后再试`
+      `检查${translator.shortName}翻译API配置时出错，请重新启动VSCode后再试`
     );
     return false;
   }
 }
 
+/**
+ * 按优先级依次检查翻译API配置
+ * 首先检查默认翻译器，只有当其配置无效时才继续检查其他翻译器
+ *
+ * @param registry 翻译器注册表
+ * @param checked 可选的已检查过的翻译器，不再重复检查
+ * @returns Promise<boolean> 是否存在配置有效的翻译器
+ */
+async function checkFallbackConfiguration(
+  registry: TranslatorRegistry,
+  checked?: Translator
+): Promise<boolean> {
+  for (const translator of registry.getOrdered()) {
+    if (translator === checked) {
+      continue;
+    }
+    if (await checkAndPromptForConfiguration(translator, false)) {
+      return true;
+    }
+  }
+  return false;
+}
+
 /**
  * 检查快捷键是否与其他扩展冲突
  *
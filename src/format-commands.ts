@@ -0,0 +1,242 @@
+/**
+ * 命名格式命令模块
+ *
+ * 为每种命名格式提供单独的翻译命令（如翻译为camelCase），翻译后直接替换选中文本，不再弹出选项列表，
+ * 可以为常用的格式绑定快捷键；同时提供按上次使用的命名格式翻译的命令。翻译结果会记录为命名偏好，
+ * 再次翻译相同的原文时优先显示。
+ * 所有命令都作用于每个选择区域（多光标），光标处没有选中文本时翻译光标所在的单词
+ *
+ * @author uli
+ * @version 1.5.0
+ */
+
+import * as vscode from 'vscode';
+import { toIdentifier } from './identifier-sanitizer';
+import { getLanguageSettings } from './language-picker';
+import { getNamingFormat, getPreferredFormatAt } from './naming-conventions';
+import { NamingPreferences } from './naming-preferences';
+import { isTemplateFormat, resolveNamingFormat } from './naming-templates';
+import { TranslationHistory } from './translation-history';
+import { TranslatorRegistry } from './translator-registry';
+import { NamingFormat } from './utils';
+
+/**
+ * 各命名格式对应的命令，键为命名格式标识
+ */
+export const FORMAT_COMMANDS: { [formatId: string]: string } = {
+  'camelCase': 'uli-translation.translateToCamelCase',
+  'PascalCase': 'uli-translation.translateToPascalCase',
+  'snake_case': 'uli-translation.translateToSnakeCase',
+  'kebab-case': 'uli-translation.translateToKebabCase',
+  'Kebab-Case': 'uli-translation.translateToUpperKebabCase',
+  'SCREAMING-KEBAB-CASE': 'uli-translation.translateToScreamingKebabCase',
+  'lowerWords': 'uli-translation.translateToLowerWords',
+  'TitleWords': 'uli-translation.translateToTitleWords',
+  'CONSTANT_CASE': 'uli-translation.translateToConstantCase',
+  'flatcase': 'uli-translation.translateToFlatCase',
+  'dot.case': 'uli-translation.translateToDotCase',
+  'path/case': 'uli-translation.translateToPathCase'
+};
+
+/**
+ * 上次使用的命名格式在全局状态中的键
+ */
+const LAST_FORMAT_KEY = 'uliTranslation.lastFormat';
+
+/**
+ * 记录上次使用的命名格式
+ * @param context 扩展上下文，用于读写全局状态
+ * @param formatId 命名格式标识
+ */
+export function rememberLastFormat(context: vscode.ExtensionContext, formatId: string): void {
+  context.globalState.update(LAST_FORMAT_KEY, formatId);
+}
+
+/**
+ * 获取所有选择区域的范围
+ * 选择区域为空时使用光标所在的单词，重复的范围只保留一个
+ *
+ * @param editor 编辑器
+ * @returns 选择区域的范围，按在文档中的位置排列
+ */
+export function getSelectionRanges(editor: vscode.TextEditor): vscode.Range[] {
+  const ranges: vscode.Range[] = [];
+  for (const selection of editor.selections) {
+    const range = selection.isEmpty ? editor.document.getWordRangeAtPosition(selection.active) : selection;
+    if (range && !ranges.some(item => item.isEqual(range))) {
+      ranges.push(range);
+    }
+  }
+  return ranges.sort((a, b) => a.start.compareTo(b.start));
+}
+
+/**
+ * 将所有选择区域的文本翻译为英文并转换为指定的命名格式后替换
+ *
+ * 相同的文本只翻译一次；所有替换在同一次编辑中完成，可以一次撤销。
+ * 译文丢失了占位符或标记的文本不会被替换
+ *
+ * @param context 扩展上下文，用于记录上次使用的命名格式
+ * @param registry 翻译器注册表
+ * @param history 翻译历史
+ * @param preferences 命名偏好
+ * @param namingFormat 命名格式
+ */
+export async function translateSelectionsToFormat(
+  context: vscode.ExtensionContext,
+  registry: TranslatorRegistry,
+  history: TranslationHistory,
+  preferences: NamingPreferences,
+  namingFormat: NamingFormat
+): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showInformationMessage('没有打开的编辑器');
+    return;
+  }
+
+  const document = editor.document;
+  const ranges = getSelectionRanges(editor).filter(range => document.getText(range).trim());
+  if (ranges.length === 0) {
+    vscode.window.showInformationMessage('请先选择要翻译的文本');
+    return;
+  }
+
+  rememberLastFormat(context, namingFormat.id);
+  const version = document.version;
+  const { from } = getLanguageSettings();
+  const texts = [...new Set(ranges.map(range => document.getText(range)))];
+  const results = new Map<string, string>();
+  const skipped: string[] = [];
+  const lostTerms = new Set<string>();
+
+  const statusBarMessage = vscode.window.setStatusBarMessage(
+    `正在将${texts.length > 1 ? `${texts.length}处选中文本` : `「${texts[0]}」`}翻译为${namingFormat.label}...`
+  );
+  try {
+    for (const text of texts) {
+      const outcome = await registry.translate(text, from, 'en');
+      if (outcome.lostPlaceholders.length > 0) {
+        skipped.push(text);
+        continue;
+      }
+      results.set(text, outcome.text);
+      outcome.lostTerms.forEach(term => lostTerms.add(`${term.source}→${term.target}`));
+      history.add({
+        text,
+        result: outcome.text,
+        from,
+        to: 'en',
+        provider: outcome.sourceName,
+        format: namingFormat.id,
+        file: vscode.workspace.asRelativePath(document.uri),
+        languageId: document.languageId
+      });
+    }
+  } finally {
+    statusBarMessage.dispose();
+  }
+
+  if (skipped.length > 0) {
+    vscode.window.showWarningMessage(`「${skipped.join('」、「')}」的译文中丢失了占位符或标记，未替换`);
+  }
+  if (lostTerms.size > 0) {
+    vscode.window.showWarningMessage(`译文中没有使用术语表规定的译文：${[...lostTerms].join('、')}，请检查后再使用`);
+  }
+  if (results.size === 0) {
+    return;
+  }
+
+  // 翻译期间文档被修改时，原来的范围可能已经失效
+  if (document.version !== version) {
+    vscode.window.showWarningMessage('翻译期间文档已被修改，已取消替换');
+    return;
+  }
+
+  // 译文无法转换为合法的标识符（如翻译API原样返回了中文）时不替换
+  const names = new Map<string, string>();
+  const invalid: string[] = [];
+  for (const [text, result] of results) {
+    const name = isTemplateFormat(namingFormat)
+      ? namingFormat.format(result)
+      : toIdentifier(result, namingFormat, document.languageId);
+    if (name) {
+      names.set(text, name);
+    } else {
+      invalid.push(text);
+    }
+  }
+  if (invalid.length > 0) {
+    vscode.window.showWarningMessage(`「${invalid.join('」、「')}」的译文无法转换为合法的标识符，未替换`);
+  }
+  if (names.size === 0) {
+    return;
+  }
+  const success = await editor.edit(editBuilder => {
+    for (const range of ranges) {
+      const name = names.get(document.getText(range));
+      if (name !== undefined) {
+        editBuilder.replace(range, name);
+      }
+    }
+  });
+  if (!success) {
+    vscode.window.showErrorMessage('替换文本失败');
+    return;
+  }
+
+  for (const [text, name] of names) {
+    preferences.record({
+      text,
+      from,
+      languageId: document.languageId,
+      formatId: namingFormat.id,
+      result: results.get(text)!,
+      name
+    });
+  }
+}
+
+/**
+ * 注册各命名格式的翻译命令以及按上次使用的命名格式翻译的命令
+ *
+ * @param context 扩展上下文，用于注册命令和管理资源
+ * @param registry 翻译器注册表
+ * @param history 翻译历史
+ * @param preferences 命名偏好
+ */
+export function registerFormatCommands(
+  context: vscode.ExtensionContext,
+  registry: TranslatorRegistry,
+  history: TranslationHistory,
+  preferences: NamingPreferences
+): void {
+  /**
+   * 执行翻译并显示错误信息
+   * @param namingFormat 命名格式
+   */
+  const run = async (namingFormat: NamingFormat) => {
+    try {
+      await translateSelectionsToFormat(context, registry, history, preferences, namingFormat);
+    } catch (error) {
+      vscode.window.showErrorMessage(`翻译失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
+  for (const [formatId, command] of Object.entries(FORMAT_COMMANDS)) {
+    context.subscriptions.push(vscode.commands.registerCommand(command, () => run(getNamingFormat(formatId)!)));
+  }
+
+  // 按上次使用的命名格式或命名模板翻译，从未选择过或命名模板已被删除时使用当前文件语言和上下文惯用的格式
+  context.subscriptions.push(
+    vscode.commands.registerCommand('uli-translation.translateWithLastFormat', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        vscode.window.showInformationMessage('没有打开的编辑器');
+        return;
+      }
+      const lastFormat = resolveNamingFormat(context.globalState.get<string>(LAST_FORMAT_KEY, ''), editor.document.languageId);
+      await run(lastFormat ?? getPreferredFormatAt(editor.document, editor.selection.start));
+    })
+  );
+}
@@ -0,0 +1,354 @@
+/**
+ * 术语表模块
+ *
+ * 该模块读取工作区中的术语表文件（默认为.vscode/uli-translation-glossary.json），
+ * 按语言对保存原文术语到规定译文的映射；翻译前将原文中的术语替换为占位标记，
+ * 翻译后再替换为规定的译文，保证团队的领域术语在每次翻译中保持一致
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { TextMasker } from './text-masking';
+
+/**
+ * 术语表中的一个语言对
+ *
+ * @property from - 源语言，*或auto表示任意源语言
+ * @property to - 目标语言
+ * @property terms - 原文术语到规定译文的映射
+ */
+export interface GlossaryPair {
+  from: string;
+  to: string;
+  terms: { [source: string]: string };
+}
+
+/**
+ * 术语命中记录
+ *
+ * @property source - 原文术语
+ * @property target - 规定的译文
+ */
+export interface GlossaryHit {
+  source: string;
+  target: string;
+}
+
+/**
+ * 术语表应用结果
+ *
+ * @property text - 术语替换为占位标记后的文本
+ * @property hits - 命中的术语，同一术语只记录一次
+ */
+export interface GlossaryApplyResult {
+  text: string;
+  hits: GlossaryHit[];
+}
+
+/**
+ * 新建术语表文件时写入的示例内容
+ */
+const GLOSSARY_TEMPLATE = {
+  version: 1,
+  pairs: [
+    { from: 'zh', to: 'en', terms: { '订单': 'order' } }
+  ]
+};
+
+/**
+ * 转义正则表达式中的特殊字符
+ * @param text 原始文本
+ * @returns 转义后的文本
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 生成匹配术语的正则表达式片段
+ * 以字母或数字开头（结尾）的术语要求前（后）不紧邻字母、数字或下划线，避免匹配到单词内部；
+ * 中文等不以空格分词的术语直接按子串匹配
+ *
+ * @param term 原文术语
+ * @returns 正则表达式片段
+ */
+function termPattern(term: string): string {
+  const prefix = /^[\p{L}\p{N}_]/u.test(term) && !/^\p{Script=Han}/u.test(term) ? '(?<![\\p{L}\\p{N}_])' : '';
+  const suffix = /[\p{L}\p{N}_]$/u.test(term) && !/\p{Script=Han}$/u.test(term) ? '(?![\\p{L}\\p{N}_])' : '';
+  return `${prefix}${escapeRegExp(term)}${suffix}`;
+}
+
+/**
+ * 解析术语表文件内容
+ * @param content 文件内容
+ * @returns 术语表语言对列表
+ * @throws Error 当文件内容格式不正确时抛出错误
+ */
+function parseGlossary(content: string): GlossaryPair[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`术语表文件不是有效的JSON: ${error instanceof Error ? error.message : '未知错误'}`);
+  }
+
+  const pairs = (data as { pairs?: unknown })?.pairs;
+  if (!Array.isArray(pairs)) {
+    throw new Error('术语表文件格式不正确，缺少pairs数组');
+  }
+
+  return pairs
+    .filter((pair): pair is GlossaryPair =>
+      !!pair &&
+      typeof pair.from === 'string' &&
+      typeof pair.to === 'string' &&
+      !!pair.terms &&
+      typeof pair.terms === 'object'
+    )
+    .map(pair => ({
+      from: pair.from,
+      to: pair.to,
+      terms: Object.fromEntries(
+        Object.entries(pair.terms).filter(
+          (term): term is [string, string] => !!term[0].trim() && typeof term[1] === 'string'
+        )
+      )
+    }));
+}
+
+/**
+ * 工作区术语表类
+ * 读取各工作区文件夹中的术语表文件，文件变化时自动重新加载
+ */
+export class WorkspaceGlossary implements vscode.Disposable {
+  // 所有工作区文件夹中的术语表语言对
+  private pairs: GlossaryPair[] = [];
+  // 是否已完成首次加载，首次加载不触发术语变化事件
+  private loaded: boolean = false;
+  // 术语表文件监听器
+  private watchers: vscode.Disposable[] = [];
+  // 配置和工作区文件夹变化监听
+  private readonly listeners: vscode.Disposable[];
+  // 术语变化事件
+  private readonly changeEmitter = new vscode.EventEmitter<string[]>();
+
+  /**
+   * 术语变化事件
+   * 参数为新增、删除或修改了译文的原文术语，用于使包含这些术语的翻译缓存失效
+   */
+  public readonly onDidChange: vscode.Event<string[]> = this.changeEmitter.event;
+
+  /**
+   * 构造函数
+   * 创建后立即加载术语表并监听文件变化
+   */
+  constructor() {
+    this.listeners = [
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('uliTranslation.glossary')) {
+          this.watch();
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.watch())
+    ];
+    this.watch();
+  }
+
+  /**
+   * 检查是否启用术语表
+   * @returns 是否启用
+   */
+  public isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('uliTranslation.glossary').get<boolean>('enable', true);
+  }
+
+  /**
+   * 获取术语表文件相对于工作区文件夹的路径
+   * @returns 相对路径
+   */
+  private getRelativePath(): string {
+    return vscode.workspace
+      .getConfiguration('uliTranslation.glossary')
+      .get<string>('file', '.vscode/uli-translation-glossary.json');
+  }
+
+  /**
+   * 获取第一个工作区文件夹中的术语表文件
+   * @returns 术语表文件的Uri，没有打开工作区时返回undefined
+   */
+  public getFileUri(): vscode.Uri | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? vscode.Uri.joinPath(folder.uri, this.getRelativePath()) : undefined;
+  }
+
+  /**
+   * 获取适用于指定语言对的术语
+   * 源语言为auto时适用所有目标语言相同的术语，先加载的术语优先
+   *
+   * @param from 源语言
+   * @param to 目标语言
+   * @returns 原文术语到规定译文的映射
+   */
+  public getTerms(from: string, to: string): Map<string, string> {
+    const terms = new Map<string, string>();
+    if (!this.isEnabled()) {
+      return terms;
+    }
+    for (const pair of this.pairs) {
+      const fromMatches = from === 'auto' || pair.from === from || pair.from === '*' || pair.from === 'auto';
+      if (pair.to !== to || !fromMatches) {
+        continue;
+      }
+      for (const [source, target] of Object.entries(pair.terms)) {
+        if (!terms.has(source)) {
+          terms.set(source, target);
+        }
+      }
+    }
+    return terms;
+  }
+
+  /**
+   * 将文本中的术语替换为占位标记
+   * 较长的术语优先匹配，避免“订单号”被拆成“订单”和“号”
+   *
+   * @param masker 本次翻译使用的文本遮蔽实例
+   * @param text 要翻译的文本
+   * @param from 源语言
+   * @param to 目标语言
+   * @returns 替换后的文本和命中的术语
+   */
+  public apply(masker: TextMasker, text: string, from: string, to: string): GlossaryApplyResult {
+    const terms = this.getTerms(from, to);
+    if (terms.size === 0) {
+      return { text, hits: [] };
+    }
+
+    const pattern = new RegExp(
+      Array.from(terms.keys())
+        .sort((a, b) => b.length - a.length)
+        .map(termPattern)
+        .join('|'),
+      'gu'
+    );
+    const hits = new Map<string, string>();
+    const masked = masker.mask(text, pattern, match => {
+      const target = terms.get(match);
+      if (target !== undefined) {
+        hits.set(match, target);
+      }
+      return target;
+    });
+
+    return {
+      text: masked,
+      hits: Array.from(hits, ([source, target]) => ({ source, target }))
+    };
+  }
+
+  /**
+   * 打开第一个工作区文件夹中的术语表文件，文件不存在时创建示例术语表
+   * @throws Error 当没有打开工作区时抛出错误
+   */
+  public async open(): Promise<void> {
+    const uri = this.getFileUri();
+    if (!uri) {
+      throw new Error('请先打开工作区文件夹');
+    }
+    try {
+      await vscode.workspace.fs.stat(uri);
+    } catch {
+      await vscode.workspace.fs.writeFile(
+        uri,
+        Buffer.from(`${JSON.stringify(GLOSSARY_TEMPLATE, null, 2)}\n`, 'utf8')
+      );
+    }
+    await vscode.window.showTextDocument(uri);
+  }
+
+  /**
+   * 重新创建文件监听器并加载术语表
+   */
+  private watch(): void {
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.watchers = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(folder, this.getRelativePath())
+      );
+      watcher.onDidCreate(() => this.reload());
+      watcher.onDidChange(() => this.reload());
+      watcher.onDidDelete(() => this.reload());
+      this.watchers.push(watcher);
+    }
+    this.reload();
+  }
+
+  /**
+   * 重新加载所有工作区文件夹中的术语表，并通知发生变化的术语
+   */
+  private async reload(): Promise<void> {
+    const pairs: GlossaryPair[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const uri = vscode.Uri.joinPath(folder.uri, this.getRelativePath());
+      let content: string;
+      try {
+        content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+      } catch {
+        // 术语表文件不存在
+        continue;
+      }
+      try {
+        pairs.push(...parseGlossary(content));
+      } catch (error) {
+        console.error(`读取术语表失败: ${uri.fsPath}`, error);
+        vscode.window.showWarningMessage(
+          `术语表文件读取失败: ${error instanceof Error ? error.message : '未知错误'}`
+        );
+      }
+    }
+
+    const changed = this.loaded ? this.diffTerms(this.pairs, pairs) : [];
+    this.pairs = pairs;
+    this.loaded = true;
+    console.log(`已加载${pairs.reduce((sum, pair) => sum + Object.keys(pair.terms).length, 0)}条术语`);
+    if (changed.length > 0) {
+      this.changeEmitter.fire(changed);
+    }
+  }
+
+  /**
+   * 比较新旧术语表，找出新增、删除或修改了译文的原文术语
+   * @param oldPairs 旧的术语表
+   * @param newPairs 新的术语表
+   * @returns 发生变化的原文术语
+   */
+  private diffTerms(oldPairs: GlossaryPair[], newPairs: GlossaryPair[]): string[] {
+    const flatten = (pairs: GlossaryPair[]): Map<string, string> => {
+      const result = new Map<string, string>();
+      for (const pair of pairs) {
+        for (const [source, target] of Object.entries(pair.terms)) {
+          result.set(`${pair.from}|${pair.to}|${source}`, target);
+        }
+      }
+      return result;
+    };
+    const oldTerms = flatten(oldPairs);
+    const newTerms = flatten(newPairs);
+    const changed = new Set<string>();
+    for (const key of new Set([...oldTerms.keys(), ...newTerms.keys()])) {
+      if (oldTerms.get(key) !== newTerms.get(key)) {
+        changed.add(key.split('|').slice(2).join('|'));
+      }
+    }
+    return Array.from(changed);
+  }
+
+  public dispose(): void {
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.listeners.forEach(listener => listener.dispose());
+    this.changeEmitter.dispose();
+  }
+}
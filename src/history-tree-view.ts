@@ -0,0 +1,261 @@
+/**
+ * 翻译历史视图模块
+ *
+ * 该模块在活动栏的ULI Translation视图中以树形列表展示翻译历史，
+ * 支持搜索、收藏、按指定命名格式插入到光标处以及删除翻译历史记录
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { formatAge, toSingleLine } from './cache-tree-view';
+import { getLanguageName } from './languages';
+import { HistoryEntry, TranslationHistory } from './translation-history';
+import { NAMING_FORMATS } from './utils';
+
+/**
+ * 翻译历史树节点
+ */
+export class HistoryTreeItem extends vscode.TreeItem {
+  /**
+   * 构造函数
+   * @param entry 翻译历史记录
+   */
+  constructor(public readonly entry: HistoryEntry) {
+    super(toSingleLine(entry.text), vscode.TreeItemCollapsibleState.None);
+
+    const namingFormat = NAMING_FORMATS.find(item => item.id === entry.format);
+    const result = namingFormat ? namingFormat.format(entry.result) : entry.result;
+    this.description = `${toSingleLine(result)} · ${entry.provider} · ${formatAge(entry.timestamp)}`;
+    this.contextValue = entry.pinned ? 'historyEntryPinned' : 'historyEntry';
+    this.iconPath = new vscode.ThemeIcon(entry.pinned ? 'star-full' : 'history');
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown('**原文**\n\n');
+    tooltip.appendCodeblock(entry.text, 'text');
+    tooltip.appendMarkdown('**译文**\n\n');
+    tooltip.appendCodeblock(entry.result, 'text');
+    const details = [
+      `语言: ${getLanguageName(entry.from)} → ${getLanguageName(entry.to)}`,
+      `翻译API: ${entry.provider}`,
+      ...(namingFormat ? [`命名格式: ${namingFormat.label}`] : []),
+      ...(entry.file ? [`文件: ${entry.file}${entry.languageId ? ` (${entry.languageId})` : ''}`] : []),
+      `翻译时间: ${new Date(entry.timestamp).toLocaleString()}`
+    ];
+    tooltip.appendText(details.join('\n'));
+    this.tooltip = tooltip;
+  }
+}
+
+/**
+ * 翻译历史树数据提供者
+ * 翻译历史变化时自动刷新列表
+ */
+export class HistoryTreeDataProvider implements vscode.TreeDataProvider<HistoryTreeItem>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData: vscode.Event<void> = this.changeEmitter.event;
+
+  // 当前的搜索关键词
+  private filter: string = '';
+  // 树视图，用于显示搜索提示
+  private view: vscode.TreeView<HistoryTreeItem> | undefined;
+  // 翻译历史变化监听
+  private readonly historyListener: vscode.Disposable;
+
+  /**
+   * 构造函数
+   * @param history 翻译历史
+   */
+  constructor(private readonly history: TranslationHistory) {
+    this.historyListener = history.onDidChange(() => this.refresh());
+  }
+
+  /**
+   * 绑定树视图
+   * @param view 树视图
+   */
+  public attach(view: vscode.TreeView<HistoryTreeItem>): void {
+    this.view = view;
+  }
+
+  /**
+   * 获取当前的搜索关键词
+   * @returns 搜索关键词
+   */
+  public getFilter(): string {
+    return this.filter;
+  }
+
+  /**
+   * 设置搜索关键词
+   * 按原文、译文或文件路径匹配，不区分大小写
+   *
+   * @param filter 搜索关键词，为空时显示全部翻译历史
+   */
+  public setFilter(filter: string): void {
+    this.filter = filter.trim();
+    vscode.commands.executeCommand('setContext', 'uliTranslation.historyFilterActive', !!this.filter);
+    this.refresh();
+  }
+
+  /**
+   * 刷新列表
+   */
+  public refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  public getTreeItem(element: HistoryTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  public getChildren(element?: HistoryTreeItem): HistoryTreeItem[] {
+    if (element) {
+      return [];
+    }
+
+    const keyword = this.filter.toLowerCase();
+    const entries = this.history
+      .getEntries()
+      .filter(entry =>
+        !keyword ||
+        entry.text.toLowerCase().includes(keyword) ||
+        entry.result.toLowerCase().includes(keyword) ||
+        !!entry.file?.toLowerCase().includes(keyword)
+      )
+      // 收藏的记录排在最前，其余按翻译时间从新到旧排列
+      .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+
+    if (this.view) {
+      this.view.message = this.filter ? `搜索“${this.filter}”：共${entries.length}条` : undefined;
+    }
+
+    return entries.map(entry => new HistoryTreeItem(entry));
+  }
+
+  public dispose(): void {
+    this.historyListener.dispose();
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * 让用户选择命名格式后将译文插入到活动编辑器的所有光标处
+ * @param entry 翻译历史记录
+ */
+async function insertEntry(entry: HistoryEntry): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showInformationMessage('没有打开的编辑器');
+    return;
+  }
+
+  // 翻译时选择的命名格式排在最前面
+  const items = [
+    { label: entry.result, description: '译文', format: (text: string) => text, id: '' },
+    ...NAMING_FORMATS.map(namingFormat => ({
+      label: namingFormat.format(entry.result),
+      description: namingFormat.label,
+      format: namingFormat.format,
+      id: namingFormat.id
+    }))
+  ].sort((a, b) => Number(b.id === entry.format) - Number(a.id === entry.format));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: `插入「${toSingleLine(entry.text)}」的译文`,
+    placeHolder: '选择插入的格式',
+    matchOnDescription: true
+  });
+  if (!selected) {
+    return;
+  }
+
+  const value = selected.format(entry.result);
+  await editor.edit(editBuilder => {
+    for (const selection of editor.selections) {
+      editBuilder.replace(selection, value);
+    }
+  });
+}
+
+/**
+ * 注册翻译历史视图及其命令
+ *
+ * @param context 扩展上下文，用于注册命令和管理资源
+ * @param history 翻译历史
+ */
+export function registerHistoryView(context: vscode.ExtensionContext, history: TranslationHistory): void {
+  const provider = new HistoryTreeDataProvider(history);
+  const view = vscode.window.createTreeView('uliTranslation.historyView', {
+    treeDataProvider: provider,
+    showCollapseAll: false
+  });
+  provider.attach(view);
+
+  context.subscriptions.push(
+    provider,
+    view,
+
+    // 搜索翻译历史
+    vscode.commands.registerCommand('uli-translation.history.search', async () => {
+      const keyword = await vscode.window.showInputBox({
+        title: '搜索翻译历史',
+        prompt: '按原文、译文或文件路径搜索，留空显示全部翻译历史',
+        value: provider.getFilter()
+      });
+      if (keyword !== undefined) {
+        provider.setFilter(keyword);
+      }
+    }),
+
+    // 清除搜索条件
+    vscode.commands.registerCommand('uli-translation.history.clearSearch', () => {
+      provider.setFilter('');
+    }),
+
+    // 收藏
+    vscode.commands.registerCommand('uli-translation.history.pin', (item?: HistoryTreeItem) => {
+      if (item) {
+        history.setPinned(item.entry.id, true);
+      }
+    }),
+
+    // 取消收藏
+    vscode.commands.registerCommand('uli-translation.history.unpin', (item?: HistoryTreeItem) => {
+      if (item) {
+        history.setPinned(item.entry.id, false);
+      }
+    }),
+
+    // 按指定格式插入到光标处
+    vscode.commands.registerCommand('uli-translation.history.insert', async (item?: HistoryTreeItem) => {
+      if (item) {
+        await insertEntry(item.entry);
+      }
+    }),
+
+    // 删除翻译历史记录
+    vscode.commands.registerCommand('uli-translation.history.delete', (item?: HistoryTreeItem) => {
+      if (item) {
+        history.delete(item.entry.id);
+      }
+    }),
+
+    // 清空翻译历史
+    vscode.commands.registerCommand('uli-translation.history.clear', async () => {
+      const result = await vscode.window.showWarningMessage(
+        '确定要清空翻译历史吗？收藏的记录会被保留',
+        { modal: true },
+        '清空'
+      );
+      if (result !== '清空') {
+        return;
+      }
+      const keptCount = history.clear();
+      vscode.window.showInformationMessage(
+        keptCount > 0 ? `翻译历史已清空，保留了${keptCount}条收藏的记录` : '翻译历史已清空'
+      );
+    })
+  );
+}
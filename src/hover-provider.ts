@@ -0,0 +1,134 @@
+/**
+ * 悬停翻译模块
+ *
+ * 该模块提供悬停翻译功能：鼠标悬停在英文单词或标识符上时，
+ * 将标识符拆分为单词（如getUserOrderList拆分为get user order list）后翻译，并在悬停提示中显示译文。
+ * 悬停翻译默认关闭，可以按语言开启；关键字和过短的单词不会发起翻译请求
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { TranslatorRegistry } from './translator-registry';
+import { toLowerWords } from './utils';
+
+/**
+ * 匹配标识符的正则表达式
+ */
+const IDENTIFIER_PATTERN = /[A-Za-z_$][A-Za-z0-9_$]*/;
+
+/**
+ * 常见编程语言的关键字和字面量，悬停在这些单词上时不翻译
+ */
+const KEYWORDS = new Set<string>([
+  'abstract', 'and', 'as', 'assert', 'async', 'await', 'bool', 'boolean', 'break', 'byte', 'case', 'catch',
+  'char', 'class', 'const', 'continue', 'debugger', 'def', 'default', 'del', 'delete', 'do', 'double', 'elif',
+  'else', 'enum', 'except', 'export', 'extends', 'false', 'final', 'finally', 'float', 'fn', 'for', 'from',
+  'func', 'function', 'get', 'global', 'go', 'goto', 'if', 'impl', 'implements', 'import', 'in', 'instanceof',
+  'int', 'interface', 'is', 'lambda', 'let', 'long', 'match', 'mod', 'mut', 'namespace', 'new', 'nil', 'none',
+  'not', 'null', 'number', 'object', 'or', 'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise',
+  'readonly', 'return', 'self', 'set', 'short', 'static', 'string', 'struct', 'super', 'switch', 'this',
+  'throw', 'throws', 'trait', 'true', 'try', 'type', 'typeof', 'undefined', 'unsigned', 'use', 'val', 'var',
+  'void', 'while', 'with', 'yield'
+]);
+
+/**
+ * 悬停翻译提供者
+ * 通过VSCode的悬停取消机制实现防抖：鼠标在延迟时间内移开时不发起翻译请求
+ */
+export class TranslationHoverProvider implements vscode.HoverProvider {
+  // 正在进行的翻译请求，相同文本的悬停共用同一个请求
+  private pending: Map<string, Promise<vscode.Hover | undefined>> = new Map();
+
+  /**
+   * 构造函数
+   * @param registry 翻译器注册表
+   */
+  constructor(private readonly registry: TranslatorRegistry) {}
+
+  public async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Hover | undefined> {
+    // 悬停翻译可以按语言开启，如"[python]": { "uliTranslation.hover.enable": true }
+    const config = vscode.workspace.getConfiguration('uliTranslation.hover', document);
+    if (!config.get<boolean>('enable', false)) {
+      return undefined;
+    }
+
+    const range = document.getWordRangeAtPosition(position, IDENTIFIER_PATTERN);
+    if (!range) {
+      return undefined;
+    }
+    const identifier = document.getText(range);
+    const words = toLowerWords(identifier.replace(/\$/g, ' '));
+
+    // 关键字和过短的单词不翻译
+    const minLength = config.get<number>('minLength', 3);
+    if (identifier.length < minLength || KEYWORDS.has(identifier.toLowerCase()) || !/[a-z]/.test(words)) {
+      return undefined;
+    }
+
+    // 没有可用的翻译器时不显示悬停翻译
+    if (!this.registry.resolve()) {
+      return undefined;
+    }
+
+    // 防抖：等待一段时间，期间鼠标移开则取消
+    const delay = config.get<number>('delay', 300);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+
+    const target = config.get<string>('targetLanguage', 'zh');
+    const key = `${words}|${target}`;
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.translate(identifier, words, target).finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    const hover = await request;
+    return hover ? new vscode.Hover(hover.contents, range) : undefined;
+  }
+
+  /**
+   * 翻译拆分后的单词并生成悬停内容
+   * @param identifier 原始标识符
+   * @param words 拆分后的单词
+   * @param target 目标语言
+   * @returns 悬停内容，翻译失败时返回undefined
+   */
+  private async translate(identifier: string, words: string, target: string): Promise<vscode.Hover | undefined> {
+    try {
+      const outcome = await this.registry.translate(words, 'en', target);
+      const markdown = new vscode.MarkdownString();
+      markdown.appendMarkdown(`**ULI Translation** · ${outcome.sourceName}\n\n`);
+      if (words !== identifier) {
+        markdown.appendText(`${identifier} → ${words}\n\n`);
+      }
+      markdown.appendText(outcome.text);
+      return new vscode.Hover(markdown);
+    } catch (error) {
+      console.warn(`悬停翻译失败: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * 注册悬停翻译提供者
+ *
+ * @param context 扩展上下文，用于注册提供者和管理资源
+ * @param registry 翻译器注册表
+ */
+export function registerTranslationHover(context: vscode.ExtensionContext, registry: TranslatorRegistry): void {
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider(
+      [{ scheme: 'file' }, { scheme: 'untitled' }],
+      new TranslationHoverProvider(registry)
+    )
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * 标识符候选模块
+ *
+ * 翻译API只返回一个译文，而命名时往往需要在几个意思相近的名称中选择（如“删除用户”可以是deleteUser、removeUser或destroyUser）。
+ * 该模块从所有配置有效的翻译API的译文、百度翻译的词典释义以及离线的常用编程动词同义词表中收集候选名称，
+ * 按工作区标识符中各单词出现的次数和名称长度排序，并按来源分组
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { sanitizeWords, toIdentifier } from './identifier-sanitizer';
+import { TranslationOutcome, TranslatorRegistry } from './translator-registry';
+import { NamingFormat, splitWords } from './utils';
+import { WorkspaceVocabulary } from './workspace-vocabulary';
+
+/**
+ * 候选名称的来源分组，按在选项列表中显示的顺序排列
+ */
+export type CandidateGroup = 'translation' | 'dictionary' | 'synonym';
+
+/**
+ * 各分组的显示名称
+ */
+export const CANDIDATE_GROUP_LABELS: { [group in CandidateGroup]: string } = {
+  translation: '翻译API',
+  dictionary: '词典',
+  synonym: '同义词'
+};
+
+/**
+ * 标识符候选
+ *
+ * @property phrase - 候选的英文短语（如delete user）
+ * @property name - 按命名格式转换后的名称（如deleteUser）
+ * @property group - 来源分组，同一短语有多个来源时取最靠前的分组
+ * @property sources - 来源的显示名称（如百度翻译、同义词delete → remove）
+ * @property score - 排序分数，越大越靠前
+ */
+export interface IdentifierCandidate {
+  phrase: string;
+  name: string;
+  group: CandidateGroup;
+  sources: string[];
+  score: number;
+}
+
+/**
+ * 常用编程动词的同义词，同一组中的动词可以相互替换
+ */
+const VERB_SYNONYMS: string[][] = [
+  ['delete', 'remove', 'destroy', 'erase', 'drop'],
+  ['create', 'add', 'make', 'build', 'generate'],
+  ['insert', 'add', 'append', 'push'],
+  ['get', 'fetch', 'retrieve', 'load', 'query'],
+  ['find', 'search', 'lookup', 'query'],
+  ['update', 'modify', 'edit', 'change'],
+  ['set', 'assign', 'apply'],
+  ['show', 'display', 'render', 'open'],
+  ['hide', 'close', 'dismiss'],
+  ['check', 'validate', 'verify', 'test'],
+  ['send', 'submit', 'post', 'dispatch', 'emit'],
+  ['save', 'store', 'persist', 'write'],
+  ['read', 'load', 'parse'],
+  ['start', 'begin', 'launch', 'run'],
+  ['stop', 'end', 'finish', 'terminate'],
+  ['init', 'initialize', 'setup'],
+  ['calculate', 'compute', 'count'],
+  ['convert', 'transform', 'map'],
+  ['cancel', 'abort'],
+  ['clear', 'reset', 'empty'],
+  ['copy', 'clone', 'duplicate'],
+  ['import', 'upload'],
+  ['export', 'download'],
+  ['sort', 'order'],
+  ['filter', 'select'],
+  ['enable', 'activate'],
+  ['disable', 'deactivate'],
+  ['connect', 'link', 'bind'],
+  ['disconnect', 'unlink', 'unbind'],
+  ['handle', 'process'],
+  ['register', 'subscribe'],
+  ['unregister', 'unsubscribe']
+];
+
+/**
+ * 词典释义中的占位词（如sth.、sb.），生成候选时去掉
+ */
+const DEFINITION_PLACEHOLDERS = /\b(sth|sb|one's|sb's)\b\.?/gi;
+
+/**
+ * 收集候选名称的选项
+ *
+ * @property text - 原文
+ * @property from - 源语言
+ * @property primary - 翻译命令已经得到的翻译结果
+ * @property namingFormat - 候选名称使用的命名格式
+ * @property languageId - 当前文件的语言标识，用于检查关键字
+ */
+export interface CandidateOptions {
+  text: string;
+  from: string;
+  primary: TranslationOutcome;
+  namingFormat: NamingFormat;
+  languageId: string;
+}
+
+/**
+ * 在限定时间内等待结果，超时或失败时返回undefined
+ * @param promise 要等待的结果
+ * @param timeout 超时时间（毫秒）
+ * @param source 来源名称，用于记录失败原因
+ * @returns 结果，超时或失败时为undefined
+ */
+async function withTimeout<T>(promise: Promise<T>, timeout: number, source: string): Promise<T | undefined> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<undefined>(resolve => {
+        timer = setTimeout(() => resolve(undefined), timeout);
+      })
+    ]);
+  } catch (error) {
+    console.warn(`收集${source}的候选名称失败: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 从词典释义中提取英文短语
+ * @param definition 词典释义，如"delete; remove (sth.)"
+ * @returns 英文短语，如["delete", "remove"]
+ */
+function parseDefinition(definition: string): string[] {
+  return definition
+    .replace(/[（(][^）)]*[）)]/g, ' ')
+    .split(/[;；,，]/)
+    .map(part => part.replace(DEFINITION_PLACEHOLDERS, ' ').replace(/\s+/g, ' ').trim())
+    .filter(part => /^[A-Za-z][A-Za-z '-]*$/.test(part) && part.split(' ').length <= 4);
+}
+
+/**
+ * 将短语开头的动词替换为同义词
+ * @param phrase 英文短语，如"delete user"
+ * @returns 替换后的短语及替换的说明，如[{ phrase: "remove user", source: "同义词delete → remove" }]
+ */
+function expandSynonyms(phrase: string): { phrase: string; source: string }[] {
+  const [verb, ...rest] = phrase.split(' ');
+  const results: { phrase: string; source: string }[] = [];
+  for (const group of VERB_SYNONYMS.filter(item => item.includes(verb))) {
+    for (const synonym of group.filter(item => item !== verb)) {
+      results.push({ phrase: [synonym, ...rest].join(' '), source: `同义词${verb} → ${synonym}` });
+    }
+  }
+  return results;
+}
+
+/**
+ * 收集并排序标识符候选
+ *
+ * 翻译命令已经得到的译文之外，还会调用其他配置有效的翻译API和百度翻译的词典资源，
+ * 每个来源最多等待uliTranslation.candidates.timeout毫秒，失败或超时的来源会被跳过
+ *
+ * @param registry 翻译器注册表
+ * @param vocabulary 工作区词汇，用于排序
+ * @param options 收集候选名称的选项
+ * @returns 按分组和分数排序的候选名称，每组最多uliTranslation.candidates.maxPerGroup个
+ */
+export async function collectCandidates(
+  registry: TranslatorRegistry,
+  vocabulary: WorkspaceVocabulary,
+  options: CandidateOptions
+): Promise<IdentifierCandidate[]> {
+  const config = vscode.workspace.getConfiguration('uliTranslation.candidates');
+  const timeout = config.get<number>('timeout', 3000);
+  const maxPerGroup = config.get<number>('maxPerGroup', 5);
+  const { text, from, primary } = options;
+
+  // 短语（小写单词）对应的候选，先收集到的分组优先
+  const phrases = new Map<string, { phrase: string; group: CandidateGroup; sources: string[] }>();
+  const addPhrase = (raw: string, group: CandidateGroup, source: string) => {
+    const phrase = sanitizeWords(raw).toLowerCase();
+    if (!phrase) {
+      return;
+    }
+    const existing = phrases.get(phrase);
+    if (existing) {
+      if (!existing.sources.includes(source)) {
+        existing.sources.push(source);
+      }
+    } else {
+      phrases.set(phrase, { phrase, group, sources: [source] });
+    }
+  };
+
+  addPhrase(primary.text, 'translation', primary.sourceName);
+
+  const others = registry
+    .getValid()
+    .filter(translator => translator !== primary.translator && translator.supportsLanguagePair(from, 'en'));
+  const dictionaries = registry
+    .getValid()
+    .filter(translator => translator.lookupDictionary && translator.supportsLanguagePair(from, 'en'));
+  const [translations, entries, counts] = await Promise.all([
+    Promise.all(others.map(translator =>
+      withTimeout(translator.translateDetailed(text, from, 'en'), timeout, translator.displayName))),
+    Promise.all(dictionaries.map(translator =>
+      withTimeout(translator.lookupDictionary!(text, from, 'en'), timeout, `${translator.displayName}词典`))),
+    withTimeout(vocabulary.getCounts(), timeout, '工作区词汇')
+  ]);
+
+  translations.forEach((result, index) => {
+    if (result && result.lostPlaceholders.length === 0) {
+      addPhrase(result.text, 'translation', others[index].displayName);
+    }
+  });
+  entries.forEach((entry, index) => {
+    for (const meaning of entry?.meanings ?? []) {
+      for (const definition of meaning.definitions.flatMap(parseDefinition)) {
+        addPhrase(definition, 'dictionary', `${dictionaries[index].shortName}词典`);
+      }
+    }
+  });
+  for (const item of [...phrases.values()]) {
+    for (const synonym of expandSynonyms(item.phrase)) {
+      addPhrase(synonym.phrase, 'synonym', synonym.source);
+    }
+  }
+
+  // 分数 = 各单词在工作区中出现次数的对数平均值 - 名称长度 × 0.05，项目中常用的单词和较短的名称排在前面
+  const candidates: IdentifierCandidate[] = [];
+  for (const item of phrases.values()) {
+    const name = toIdentifier(item.phrase, options.namingFormat, options.languageId);
+    if (!name || candidates.some(candidate => candidate.name === name)) {
+      continue;
+    }
+    const words = splitWords(item.phrase).map(word => word.toLowerCase());
+    const frequency = words.reduce((sum, word) => sum + Math.log1p(counts?.get(word) ?? 0), 0) / words.length;
+    candidates.push({ ...item, name, score: frequency - name.length * 0.05 });
+  }
+
+  const groups = Object.keys(CANDIDATE_GROUP_LABELS) as CandidateGroup[];
+  return groups.flatMap(group => candidates
+    .filter(candidate => candidate.group === group)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxPerGroup));
+}
@@ -0,0 +1,199 @@
+/**
+ * 标识符清理模块
+ *
+ * 翻译API返回的译文可能包含标点、冠词和非ASCII字符，格式化后还可能以数字开头或与关键字冲突。
+ * 该模块在命名格式转换前清理译文，并在转换后处理以数字开头的名称和各语言的关键字，保证结果是合法的标识符
+ *
+ * @author uli
+ * @version 1.2.0
+ */
+
+import { NamingFormat, splitWords } from './utils';
+
+/**
+ * 转换为标识符时去掉的冠词
+ */
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+/**
+ * 各语言关键字的转义方式
+ * prefix: 在关键字前加上转义前缀（如C#的@class、Rust的r#type）
+ * backtick: 使用反引号包裹（如Kotlin、Swift）
+ * suffix: 在关键字后加下划线（如Python的class_）
+ */
+type ReservedWordEscape = { kind: 'prefix'; prefix: string } | { kind: 'backtick' } | { kind: 'suffix' };
+
+/**
+ * 语言的关键字及其转义方式
+ */
+interface ReservedWords {
+  words: Set<string>;
+  escape: ReservedWordEscape;
+}
+
+const JS_RESERVED = [
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'implements', 'import', 'in', 'instanceof',
+  'interface', 'let', 'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'static', 'super',
+  'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield', 'await'
+];
+
+const JAVA_RESERVED = [
+  'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+  'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'goto', 'if',
+  'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'null', 'package', 'private',
+  'protected', 'public', 'record', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized',
+  'this', 'throw', 'throws', 'transient', 'true', 'try', 'var', 'void', 'volatile', 'while', 'yield'
+];
+
+const C_RESERVED = [
+  'auto', 'bool', 'break', 'case', 'char', 'class', 'const', 'continue', 'default', 'delete', 'do', 'double',
+  'else', 'enum', 'explicit', 'extern', 'false', 'float', 'for', 'friend', 'goto', 'if', 'inline', 'int', 'long',
+  'namespace', 'new', 'operator', 'private', 'protected', 'public', 'register', 'return', 'short', 'signed',
+  'sizeof', 'static', 'struct', 'switch', 'template', 'this', 'throw', 'true', 'try', 'typedef', 'typename',
+  'union', 'unsigned', 'using', 'virtual', 'void', 'volatile', 'while'
+];
+
+const PYTHON_RESERVED = [
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+  'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal',
+  'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'
+];
+
+const CSHARP_RESERVED = [
+  'abstract', 'as', 'base', 'bool', 'break', 'byte', 'case', 'catch', 'char', 'checked', 'class', 'const',
+  'continue', 'decimal', 'default', 'delegate', 'do', 'double', 'else', 'enum', 'event', 'explicit', 'extern',
+  'false', 'finally', 'fixed', 'float', 'for', 'foreach', 'goto', 'if', 'implicit', 'in', 'int', 'interface',
+  'internal', 'is', 'lock', 'long', 'namespace', 'new', 'null', 'object', 'operator', 'out', 'override', 'params',
+  'private', 'protected', 'public', 'readonly', 'ref', 'return', 'sbyte', 'sealed', 'short', 'sizeof', 'static',
+  'string', 'struct', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'uint', 'ulong', 'unsafe', 'ushort',
+  'using', 'virtual', 'void', 'volatile', 'while'
+];
+
+const GO_RESERVED = [
+  'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go',
+  'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type', 'var'
+];
+
+const RUST_RESERVED = [
+  'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'false', 'fn',
+  'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'static',
+  'struct', 'super', 'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while'
+];
+
+const KOTLIN_RESERVED = [
+  'as', 'break', 'class', 'continue', 'do', 'else', 'false', 'for', 'fun', 'if', 'in', 'interface', 'is', 'null',
+  'object', 'package', 'return', 'super', 'this', 'throw', 'true', 'try', 'typealias', 'typeof', 'val', 'var',
+  'when', 'while'
+];
+
+const SWIFT_RESERVED = [
+  'associatedtype', 'break', 'case', 'catch', 'class', 'continue', 'default', 'defer', 'deinit', 'do', 'else',
+  'enum', 'extension', 'fallthrough', 'false', 'fileprivate', 'for', 'func', 'guard', 'if', 'import', 'in', 'init',
+  'inout', 'internal', 'is', 'let', 'nil', 'open', 'operator', 'private', 'protocol', 'public', 'repeat',
+  'rethrows', 'return', 'self', 'static', 'struct', 'subscript', 'super', 'switch', 'throw', 'throws', 'true',
+  'try', 'typealias', 'var', 'where', 'while'
+];
+
+const RUBY_RESERVED = [
+  'alias', 'and', 'begin', 'break', 'case', 'class', 'def', 'defined?', 'do', 'else', 'elsif', 'end', 'ensure',
+  'false', 'for', 'if', 'in', 'module', 'next', 'nil', 'not', 'or', 'redo', 'rescue', 'retry', 'return', 'self',
+  'super', 'then', 'true', 'undef', 'unless', 'until', 'when', 'while', 'yield'
+];
+
+const PHP_RESERVED = [
+  'abstract', 'and', 'array', 'as', 'break', 'callable', 'case', 'catch', 'class', 'clone', 'const', 'continue',
+  'declare', 'default', 'do', 'echo', 'else', 'elseif', 'empty', 'enum', 'extends', 'final', 'finally', 'fn', 'for',
+  'foreach', 'function', 'global', 'goto', 'if', 'implements', 'include', 'instanceof', 'interface', 'isset',
+  'list', 'match', 'namespace', 'new', 'or', 'print', 'private', 'protected', 'public', 'readonly', 'require',
+  'return', 'static', 'switch', 'throw', 'trait', 'try', 'unset', 'use', 'var', 'while', 'xor', 'yield'
+];
+
+const SUFFIX: ReservedWordEscape = { kind: 'suffix' };
+
+/**
+ * 各语言的关键字，键为VSCode的语言标识
+ */
+const LANGUAGE_RESERVED_WORDS: { [languageId: string]: ReservedWords } = {
+  'javascript': { words: new Set(JS_RESERVED), escape: SUFFIX },
+  'javascriptreact': { words: new Set(JS_RESERVED), escape: SUFFIX },
+  'typescript': { words: new Set([...JS_RESERVED, 'any', 'declare', 'namespace', 'type']), escape: SUFFIX },
+  'typescriptreact': { words: new Set([...JS_RESERVED, 'any', 'declare', 'namespace', 'type']), escape: SUFFIX },
+  'java': { words: new Set(JAVA_RESERVED), escape: SUFFIX },
+  'c': { words: new Set(C_RESERVED), escape: SUFFIX },
+  'cpp': { words: new Set(C_RESERVED), escape: SUFFIX },
+  'python': { words: new Set(PYTHON_RESERVED), escape: SUFFIX },
+  'csharp': { words: new Set(CSHARP_RESERVED), escape: { kind: 'prefix', prefix: '@' } },
+  'go': { words: new Set(GO_RESERVED), escape: SUFFIX },
+  'rust': { words: new Set(RUST_RESERVED), escape: { kind: 'prefix', prefix: 'r#' } },
+  'kotlin': { words: new Set(KOTLIN_RESERVED), escape: { kind: 'backtick' } },
+  'swift': { words: new Set(SWIFT_RESERVED), escape: { kind: 'backtick' } },
+  'ruby': { words: new Set(RUBY_RESERVED), escape: SUFFIX },
+  'php': { words: new Set(PHP_RESERVED), escape: SUFFIX }
+};
+
+/**
+ * 清理译文，只保留可以组成标识符的单词
+ *
+ * 使用与命名格式转换相同的分词规则拆分单词（会去掉重音符号，如café转为cafe），
+ * 再去掉标点和其他非ASCII字符，以及单词之间的冠词（a、an、the）；只剩冠词时保留原来的单词
+ *
+ * @param text 译文
+ * @returns 以空格分隔的单词
+ * @example
+ * // 返回: "users list"
+ * sanitizeWords("The user's list.");
+ */
+export function sanitizeWords(text: string): string {
+  const words = splitWords(text)
+    .map(word => word.replace(/[^A-Za-z0-9]+/g, ''))
+    .filter(word => word);
+  const meaningful = words.filter(word => !ARTICLES.has(word.toLowerCase()));
+  return (meaningful.length > 0 ? meaningful : words).join(' ');
+}
+
+/**
+ * 转义与语言关键字冲突的名称
+ * @param name 名称
+ * @param languageId VSCode的语言标识
+ * @returns 转义后的名称，不冲突或未记录该语言时原样返回
+ */
+export function escapeReservedWord(name: string, languageId: string): string {
+  const reserved = LANGUAGE_RESERVED_WORDS[languageId];
+  if (!reserved || !reserved.words.has(name)) {
+    return name;
+  }
+  switch (reserved.escape.kind) {
+    case 'prefix':
+      return `${reserved.escape.prefix}${name}`;
+    case 'backtick':
+      return `\`${name}\``;
+    case 'suffix':
+      return `${name}_`;
+  }
+}
+
+/**
+ * 将译文转换为指定命名格式的合法标识符
+ *
+ * 先清理译文中的标点、冠词和非法字符再进行格式转换；转换结果以数字开头时加上下划线前缀，
+ * 与当前语言的关键字冲突时按语言的惯例转义（如Python的class_、C#的@default）。分词格式（如lower words）不是标识符，只进行格式转换
+ *
+ * @param text 译文
+ * @param namingFormat 命名格式
+ * @param languageId VSCode的语言标识，为空时不检查关键字
+ * @returns 标识符，译文中没有可以组成标识符的单词（如翻译API原样返回的中文、只有标点）时返回undefined
+ */
+export function toIdentifier(text: string, namingFormat: NamingFormat, languageId: string = ''): string | undefined {
+  if (!namingFormat.identifier) {
+    return namingFormat.format(text);
+  }
+  const words = sanitizeWords(text);
+  if (!words) {
+    return undefined;
+  }
+  const name = namingFormat.format(words);
+  const safeName = /^\d/.test(name) ? `_${name}` : name;
+  // 使用分隔符的格式（如kebab-case）通常用于CSS类名和文件名，不是编程语言的标识符，不检查关键字
+  return /^[\w$]+$/.test(namingFormat.format('a b')) ? escapeReservedWord(safeName, languageId) : safeName;
+}
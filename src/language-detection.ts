@@ -0,0 +1,148 @@
+/**
+ * 翻译方向识别模块
+ *
+ * 源语言为自动检测时，根据选中文本的主要文字（或腾讯云语种识别API的结果）识别源语言，
+ * 再按uliTranslation.direction.map配置选择目标语言，
+ * 使同一个快捷键既可以把中文翻译为英文标识符，也可以把英文文档翻译为中文
+ *
+ * @author uli
+ * @version 1.1.0
+ */
+
+import * as vscode from 'vscode';
+import { AUTO_LANGUAGE } from './languages';
+import { getLanguageSettings, LanguageSettings } from './language-picker';
+import { TranslatorRegistry } from './translator-registry';
+
+/**
+ * 翻译方向
+ *
+ * @property from - 源语言
+ * @property to - 目标语言
+ * @property detected - 识别出的源语言，未进行识别或无法识别时为undefined
+ */
+export interface TranslationDirection extends LanguageSettings {
+  detected?: string;
+}
+
+/**
+ * 默认的翻译方向映射：中文翻译为英文，英文翻译为中文
+ */
+const DEFAULT_DIRECTION_MAP: { [from: string]: string } = {
+  'zh': 'en',
+  'zh-TW': 'en',
+  'en': 'zh'
+};
+
+/**
+ * 各文字对应的语言，按识别优先级排列，字数相同时优先级高的语言胜出
+ * 日文同时包含假名和汉字，因此假名排在汉字之前；
+ * perWord为true的文字用空格分词、一个单词由多个字母组成，按单词计数，其余文字按字符计数
+ */
+const SCRIPT_LANGUAGES: { pattern: RegExp; language: string; perWord?: boolean }[] = [
+  { pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u, language: 'ja' },
+  { pattern: /\p{Script=Hangul}/u, language: 'ko' },
+  { pattern: /\p{Script=Han}/u, language: 'zh' },
+  { pattern: /\p{Script=Cyrillic}/u, language: 'ru', perWord: true },
+  { pattern: /\p{Script=Thai}/u, language: 'th' },
+  { pattern: /\p{Script=Arabic}/u, language: 'ar', perWord: true },
+  { pattern: /\p{Script=Latin}/u, language: 'en', perWord: true }
+];
+
+/**
+ * 根据文本中的主要文字识别语言
+ *
+ * 统计各文字的字数，取字数最多的文字对应的语言：一个汉字、假名或谚文就是一个字，
+ * 拉丁字母等拼音文字的连续字母（如userName）才算一个字，避免「获取userName」被识别为英文；
+ * 文本中出现假名时，假名和汉字合计为日文，避免把日文识别为中文；
+ * 拉丁字母统一识别为英文
+ *
+ * @param text 要识别的文本
+ * @returns 识别出的语言，文本中没有可识别的文字时返回undefined
+ */
+export function detectScriptLanguage(text: string): string | undefined {
+  const counts = new Map<string, number>();
+  let previous: typeof SCRIPT_LANGUAGES[number] | undefined;
+  for (const char of text) {
+    const script = SCRIPT_LANGUAGES.find(item => item.pattern.test(char));
+    if (script && !(script.perWord && script === previous)) {
+      counts.set(script.language, (counts.get(script.language) ?? 0) + 1);
+    }
+    previous = script;
+  }
+
+  // 日文中的汉字计入日文
+  if (counts.has('ja')) {
+    counts.set('ja', counts.get('ja')! + (counts.get('zh') ?? 0));
+    counts.delete('zh');
+  }
+
+  let detected: string | undefined;
+  let max = 0;
+  for (const { language } of SCRIPT_LANGUAGES) {
+    const count = counts.get(language) ?? 0;
+    if (count > max) {
+      detected = language;
+      max = count;
+    }
+  }
+  return detected;
+}
+
+/**
+ * 调用翻译API的语种识别接口识别语言
+ * 依次尝试配置有效且提供语种识别接口的翻译器，全部失败时返回undefined
+ *
+ * @param text 要识别的文本
+ * @param registry 翻译器注册表
+ * @returns 识别出的语言
+ */
+async function detectByApi(text: string, registry: TranslatorRegistry): Promise<string | undefined> {
+  for (const translator of registry.getOrdered()) {
+    if (!translator.detectLanguage || !translator.isConfigValid()) {
+      continue;
+    }
+    try {
+      return await translator.detectLanguage(text);
+    } catch (error) {
+      console.warn(`${translator.displayName}语种识别失败，使用本地识别: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 确定翻译方向
+ *
+ * 源语言设置为自动检测且开启了uliTranslation.direction.enable时，识别选中文本的语言，
+ * 并按uliTranslation.direction.map选择目标语言；映射中没有识别出的语言时使用配置的目标语言
+ *
+ * @param text 要翻译的文本
+ * @param registry 翻译器注册表
+ * @returns 翻译方向
+ */
+export async function resolveTranslationDirection(
+  text: string,
+  registry: TranslatorRegistry
+): Promise<TranslationDirection> {
+  const settings = getLanguageSettings();
+  const config = vscode.workspace.getConfiguration('uliTranslation.direction');
+  if (settings.from !== AUTO_LANGUAGE || !config.get<boolean>('enable', true)) {
+    return settings;
+  }
+
+  const detected = config.get<string>('detector', 'local') === 'api'
+    ? (await detectByApi(text, registry)) ?? detectScriptLanguage(text)
+    : detectScriptLanguage(text);
+  if (!detected) {
+    return settings;
+  }
+
+  const directionMap = config.get<{ [from: string]: string }>('map', DEFAULT_DIRECTION_MAP);
+  const mapped = directionMap[detected];
+  return {
+    from: settings.from,
+    to: mapped && mapped !== detected ? mapped : settings.to,
+    detected
+  };
+}
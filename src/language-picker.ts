@@ -0,0 +1,161 @@
+/**
+ * 翻译语言选择模块
+ *
+ * 该模块读取uliTranslation.sourceLanguage和uliTranslation.targetLanguage配置，
+ * 并提供选择源语言、目标语言以及互换语言的命令
+ *
+ * @author uli
+ * @version 1.1.0
+ */
+
+import * as vscode from 'vscode';
+import { AUTO_LANGUAGE, getLanguageName, LANGUAGES } from './languages';
+import { TranslatorRegistry } from './translator-registry';
+
+/**
+ * 翻译语言设置
+ *
+ * @property from - 源语言（规范语言代码）
+ * @property to - 目标语言（规范语言代码）
+ */
+export interface LanguageSettings {
+  from: string;
+  to: string;
+}
+
+/**
+ * 语言选项
+ */
+interface LanguagePickItem extends vscode.QuickPickItem {
+  code: string;
+}
+
+/**
+ * 读取翻译语言设置
+ * @returns 翻译语言设置，默认为自动检测翻译为英语
+ */
+export function getLanguageSettings(): LanguageSettings {
+  const config = vscode.workspace.getConfiguration('uliTranslation');
+  return {
+    from: config.get<string>('sourceLanguage', AUTO_LANGUAGE) || AUTO_LANGUAGE,
+    to: config.get<string>('targetLanguage', 'en') || 'en'
+  };
+}
+
+/**
+ * 让用户选择语言
+ * 每个选项显示支持该语言（选择目标语言时为支持该语言对）的翻译API
+ *
+ * @param registry 翻译器注册表
+ * @param target 是否选择目标语言
+ * @param settings 当前的翻译语言设置
+ * @returns 选中的规范语言代码，用户取消时返回undefined
+ */
+async function pickLanguage(
+  registry: TranslatorRegistry,
+  target: boolean,
+  settings: LanguageSettings
+): Promise<string | undefined> {
+  const current = target ? settings.to : settings.from;
+  const items: LanguagePickItem[] = LANGUAGES
+    .filter(language => !target || language.code !== AUTO_LANGUAGE)
+    .map(language => {
+      const supported = registry.getAll().filter(translator =>
+        target
+          ? translator.supportsLanguagePair(settings.from, language.code)
+          : language.code === AUTO_LANGUAGE || translator.supportsLanguagePair(language.code, settings.to)
+      );
+      return {
+        code: language.code,
+        label: `${language.code === current ? '$(check) ' : ''}${language.name}`,
+        description: language.code,
+        detail: supported.length > 0
+          ? `支持的翻译API: ${supported.map(translator => translator.shortName).join('、')}`
+          : `没有翻译API支持${target
+            ? `从${getLanguageName(settings.from)}翻译为${language.name}`
+            : `从${language.name}翻译为${getLanguageName(settings.to)}`}`
+      };
+    });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: target ? '选择目标语言' : '选择源语言',
+    placeHolder: `当前: ${getLanguageName(settings.from)} → ${getLanguageName(settings.to)}`,
+    matchOnDescription: true
+  });
+  return selected?.code;
+}
+
+/**
+ * 更新翻译语言设置
+ * @param key 设置项
+ * @param code 规范语言代码
+ * @param configurationTarget 写入的设置范围
+ */
+async function updateLanguage(
+  key: 'sourceLanguage' | 'targetLanguage',
+  code: string,
+  configurationTarget: vscode.ConfigurationTarget
+): Promise<void> {
+  await vscode.workspace.getConfiguration('uliTranslation').update(key, code, configurationTarget);
+}
+
+/**
+ * 让用户选择源语言或目标语言并保存
+ *
+ * @param registry 翻译器注册表
+ * @param target 是否选择目标语言
+ * @param configurationTarget 写入的设置范围，默认为用户设置
+ * @returns 是否修改了设置
+ */
+export async function selectLanguage(
+  registry: TranslatorRegistry,
+  target: boolean,
+  configurationTarget: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+): Promise<boolean> {
+  const code = await pickLanguage(registry, target, getLanguageSettings());
+  if (!code) {
+    return false;
+  }
+  await updateLanguage(target ? 'targetLanguage' : 'sourceLanguage', code, configurationTarget);
+  vscode.window.showInformationMessage(`${target ? '目标语言' : '源语言'}已设置为${getLanguageName(code)}`);
+  return true;
+}
+
+/**
+ * 互换源语言和目标语言
+ *
+ * @param configurationTarget 写入的设置范围，默认为用户设置
+ * @returns 是否修改了设置
+ */
+export async function swapLanguages(
+  configurationTarget: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+): Promise<boolean> {
+  const { from, to } = getLanguageSettings();
+  if (from === AUTO_LANGUAGE) {
+    vscode.window.showWarningMessage('源语言为自动检测时无法互换，请先选择源语言');
+    return false;
+  }
+  await updateLanguage('sourceLanguage', to, configurationTarget);
+  await updateLanguage('targetLanguage', from, configurationTarget);
+  vscode.window.showInformationMessage(`已切换为${getLanguageName(to)} → ${getLanguageName(from)}`);
+  return true;
+}
+
+/**
+ * 注册选择翻译语言的命令
+ *
+ * @param context 扩展上下文，用于注册命令和管理资源
+ * @param registry 翻译器注册表
+ */
+export function registerLanguageCommands(context: vscode.ExtensionContext, registry: TranslatorRegistry): void {
+  context.subscriptions.push(
+    // 选择源语言
+    vscode.commands.registerCommand('uli-translation.selectSourceLanguage', () => selectLanguage(registry, false)),
+
+    // 选择目标语言
+    vscode.commands.registerCommand('uli-translation.selectTargetLanguage', () => selectLanguage(registry, true)),
+
+    // 互换源语言和目标语言
+    vscode.commands.registerCommand('uli-translation.swapLanguages', () => swapLanguages())
+  );
+}
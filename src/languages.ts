@@ -0,0 +1,118 @@
+/**
+ * 语言代码模块
+ *
+ * 插件内部统一使用规范语言代码（如ja、ko、fr），
+ * 该模块负责将规范语言代码映射为各翻译API自己的语言代码（如百度翻译的jp、kor、fra）
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+/**
+ * 语言定义
+ *
+ * @property code - 规范语言代码
+ * @property name - 语言的中文名称
+ * @property providers - 各翻译器使用的语言代码，键为翻译器标识，未列出的翻译器不支持该语言
+ */
+export interface Language {
+  code: string;
+  name: string;
+  providers: { [provider: string]: string };
+}
+
+/**
+ * 自动检测源语言的规范语言代码
+ */
+export const AUTO_LANGUAGE = 'auto';
+
+/**
+ * 支持的语言列表
+ */
+export const LANGUAGES: Language[] = [
+  { code: AUTO_LANGUAGE, name: '自动检测', providers: { baidu: 'auto', tencent: 'auto' } },
+  { code: 'zh', name: '简体中文', providers: { baidu: 'zh', tencent: 'zh' } },
+  { code: 'zh-TW', name: '繁体中文', providers: { baidu: 'cht', tencent: 'zh-TW' } },
+  { code: 'en', name: '英语', providers: { baidu: 'en', tencent: 'en' } },
+  { code: 'ja', name: '日语', providers: { baidu: 'jp', tencent: 'ja' } },
+  { code: 'ko', name: '韩语', providers: { baidu: 'kor', tencent: 'ko' } },
+  { code: 'fr', name: '法语', providers: { baidu: 'fra', tencent: 'fr' } },
+  { code: 'es', name: '西班牙语', providers: { baidu: 'spa', tencent: 'es' } },
+  { code: 'de', name: '德语', providers: { baidu: 'de', tencent: 'de' } },
+  { code: 'it', name: '意大利语', providers: { baidu: 'it', tencent: 'it' } },
+  { code: 'ru', name: '俄语', providers: { baidu: 'ru', tencent: 'ru' } },
+  { code: 'pt', name: '葡萄牙语', providers: { baidu: 'pt', tencent: 'pt' } },
+  { code: 'tr', name: '土耳其语', providers: { baidu: 'tr', tencent: 'tr' } },
+  { code: 'vi', name: '越南语', providers: { baidu: 'vie', tencent: 'vi' } },
+  { code: 'th', name: '泰语', providers: { baidu: 'th', tencent: 'th' } },
+  { code: 'id', name: '印尼语', providers: { baidu: 'id', tencent: 'id' } },
+  { code: 'ms', name: '马来语', providers: { baidu: 'may', tencent: 'ms' } },
+  { code: 'ar', name: '阿拉伯语', providers: { baidu: 'ara', tencent: 'ar' } },
+  { code: 'hi', name: '印地语', providers: { baidu: 'hi', tencent: 'hi' } },
+  { code: 'yue', name: '粤语', providers: { baidu: 'yue' } },
+  { code: 'lzh', name: '文言文', providers: { baidu: 'wyw' } }
+];
+
+/**
+ * 根据规范语言代码查找语言
+ * @param code 规范语言代码
+ * @returns 语言定义，未知的语言代码返回undefined
+ */
+export function getLanguage(code: string): Language | undefined {
+  return LANGUAGES.find(language => language.code === code);
+}
+
+/**
+ * 获取语言的显示名称
+ * @param code 规范语言代码
+ * @returns 语言名称，未知的语言代码原样返回
+ */
+export function getLanguageName(code: string): string {
+  return getLanguage(code)?.name ?? code;
+}
+
+/**
+ * 将规范语言代码转换为翻译器使用的语言代码
+ * @param provider 翻译器标识
+ * @param code 规范语言代码
+ * @returns 翻译器使用的语言代码，翻译器不支持该语言时返回undefined
+ */
+export function toProviderLanguage(provider: string, code: string): string | undefined {
+  return getLanguage(code)?.providers[provider];
+}
+
+/**
+ * 将翻译器使用的语言代码转换为规范语言代码
+ * @param provider 翻译器标识
+ * @param code 翻译器使用的语言代码
+ * @returns 规范语言代码，未知的语言代码原样返回
+ */
+export function fromProviderLanguage(provider: string, code: string): string {
+  return LANGUAGES.find(language => language.providers[provider] === code)?.code ?? code;
+}
+
+/**
+ * 繁体中文的语言标签（地区或文字子标签），其余中文标签视为简体中文
+ */
+const TRADITIONAL_CHINESE_TAGS = ['tw', 'hk', 'mo', 'hant'];
+
+/**
+ * 将BCP 47语言标签（如zh-CN、en-US、pt_BR）转换为规范语言代码
+ * 先按规范语言代码忽略大小写匹配，再按主语言子标签匹配，中文按地区或文字区分简繁
+ *
+ * @param tag 语言标签
+ * @returns 规范语言代码，未知的语言标签原样返回
+ */
+export function normalizeLanguage(tag: string): string {
+  const normalized = tag.trim().replace(/_/g, '-').toLowerCase();
+  const exact = LANGUAGES.find(language => language.code.toLowerCase() === normalized);
+  if (exact) {
+    return exact.code;
+  }
+
+  const [primary, ...subtags] = normalized.split('-');
+  if (primary === 'zh') {
+    return subtags.some(subtag => TRADITIONAL_CHINESE_TAGS.includes(subtag)) ? 'zh-TW' : 'zh';
+  }
+  return getLanguage(primary)?.code ?? tag;
+}
@@ -0,0 +1,262 @@
+/**
+ * 翻译记忆文件格式模块
+ *
+ * 该模块负责翻译记忆在JSON和TMX（Translation Memory eXchange 1.4）两种文件格式之间的序列化和解析，
+ * 用于导出、导入翻译缓存以及读取工作区翻译记忆文件
+ *
+ * @author uli
+ * @version 1.2.0
+ */
+
+import { normalizeLanguage } from './languages';
+import { escapeHtml } from './utils';
+
+/**
+ * 翻译记忆条目
+ *
+ * @property source - 原文
+ * @property target - 译文
+ * @property from - 源语言
+ * @property to - 目标语言
+ * @property provider - 给出译文的翻译器标识，可选
+ * @property override - 是否为用户手动修正的翻译，可选
+ */
+export interface MemoryEntry {
+  source: string;
+  target: string;
+  from: string;
+  to: string;
+  provider?: string;
+  override?: boolean;
+}
+
+/**
+ * 翻译记忆文件格式
+ */
+export type MemoryFormat = 'json' | 'tmx';
+
+/**
+ * JSON格式翻译记忆文件的版本号
+ */
+const JSON_FORMAT_VERSION = 1;
+
+/**
+ * 根据文件路径判断翻译记忆文件格式
+ * @param filePath 文件路径
+ * @returns 文件格式，.tmx文件为tmx，其余为json
+ */
+export function detectMemoryFormat(filePath: string): MemoryFormat {
+  return filePath.toLowerCase().endsWith('.tmx') ? 'tmx' : 'json';
+}
+
+/**
+ * 序列化翻译记忆
+ * @param entries 翻译记忆条目
+ * @param format 文件格式
+ * @returns 文件内容
+ */
+export function serializeMemory(entries: MemoryEntry[], format: MemoryFormat): string {
+  return format === 'tmx' ? serializeTmx(entries) : serializeJson(entries);
+}
+
+/**
+ * 解析翻译记忆
+ * @param content 文件内容
+ * @param format 文件格式
+ * @returns 翻译记忆条目
+ * @throws Error 当文件内容格式不正确时抛出错误
+ */
+export function parseMemory(content: string, format: MemoryFormat): MemoryEntry[] {
+  return format === 'tmx' ? parseTmx(content) : parseJson(content);
+}
+
+/**
+ * 序列化为JSON格式
+ * @param entries 翻译记忆条目
+ * @returns JSON文本
+ */
+function serializeJson(entries: MemoryEntry[]): string {
+  return `${JSON.stringify({ version: JSON_FORMAT_VERSION, entries }, null, 2)}\n`;
+}
+
+/**
+ * 解析JSON格式
+ * 同时支持{ entries: [...] }对象和条目数组两种写法，缺少必要字段的条目会被忽略，
+ * 语言标签（如zh-CN、en-US）转换为规范语言代码
+ *
+ * @param content JSON文本
+ * @returns 翻译记忆条目
+ * @throws Error 当JSON无法解析或结构不正确时抛出错误
+ */
+function parseJson(content: string): MemoryEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`翻译记忆文件不是有效的JSON: ${error instanceof Error ? error.message : '未知错误'}`);
+  }
+
+  const list = Array.isArray(data) ? data : (data as { entries?: unknown })?.entries;
+  if (!Array.isArray(list)) {
+    throw new Error('翻译记忆文件格式不正确，缺少entries数组');
+  }
+
+  return list
+    .filter((item): item is MemoryEntry =>
+      !!item &&
+      typeof item.source === 'string' &&
+      typeof item.target === 'string' &&
+      typeof item.from === 'string' &&
+      typeof item.to === 'string'
+    )
+    .map(item => ({
+      source: item.source,
+      target: item.target,
+      from: normalizeLanguage(item.from),
+      to: normalizeLanguage(item.to),
+      ...(typeof item.provider === 'string' ? { provider: item.provider } : {}),
+      ...(item.override === true ? { override: true } : {})
+    }));
+}
+
+/**
+ * 序列化为TMX 1.4格式
+ * 每个翻译单元包含源语言和目标语言两个变体，翻译器和手动修正标记保存在prop元素中
+ *
+ * @param entries 翻译记忆条目
+ * @returns TMX文本
+ */
+function serializeTmx(entries: MemoryEntry[]): string {
+  const units = entries.map(entry => {
+    const props = [
+      entry.provider ? `      <prop type="x-provider">${escapeHtml(entry.provider)}</prop>` : '',
+      entry.override ? '      <prop type="x-override">true</prop>' : ''
+    ].filter(Boolean);
+    return [
+      `    <tu srclang="${escapeHtml(entry.from)}">`,
+      ...props,
+      `      <tuv xml:lang="${escapeHtml(entry.from)}"><seg>${escapeHtml(entry.source)}</seg></tuv>`,
+      `      <tuv xml:lang="${escapeHtml(entry.to)}"><seg>${escapeHtml(entry.target)}</seg></tuv>`,
+      '    </tu>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    '  <header creationtool="uli-translation" creationtoolversion="1.0.0" segtype="sentence" o-tmf="uli-translation" adminlang="en" srclang="*all*" datatype="plaintext"/>',
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * 解析TMX格式
+ * 以翻译单元的srclang（或header的srclang）对应的变体为原文，其余每个变体生成一条翻译记忆条目
+ * CAT工具导出的语言标签（如zh-CN、en-US）转换为规范语言代码，以便查询翻译记忆时匹配
+ *
+ * @param content TMX文本
+ * @returns 翻译记忆条目
+ * @throws Error 当文件不是TMX格式时抛出错误
+ */
+function parseTmx(content: string): MemoryEntry[] {
+  if (!/<tmx\b/i.test(content)) {
+    throw new Error('翻译记忆文件不是有效的TMX文件');
+  }
+
+  const headerMatch = /<header\b([^>]*)>/i.exec(content);
+  const headerSrcLang = headerMatch ? readAttribute(headerMatch[1], 'srclang') : undefined;
+
+  const entries: MemoryEntry[] = [];
+  const unitPattern = /<tu\b([^>]*)>([\s\S]*?)<\/tu>/gi;
+  let unitMatch: RegExpExecArray | null;
+  while ((unitMatch = unitPattern.exec(content)) !== null) {
+    const [, unitAttributes, unitBody] = unitMatch;
+
+    // 读取翻译单元的所有语言变体
+    const variants: { lang: string; text: string }[] = [];
+    const variantPattern = /<tuv\b([^>]*)>([\s\S]*?)<\/tuv>/gi;
+    let variantMatch: RegExpExecArray | null;
+    while ((variantMatch = variantPattern.exec(unitBody)) !== null) {
+      const lang = readAttribute(variantMatch[1], 'xml:lang') ?? readAttribute(variantMatch[1], 'lang');
+      const segMatch = /<seg\b[^>]*>([\s\S]*?)<\/seg>/i.exec(variantMatch[2]);
+      if (lang && segMatch) {
+        // 去除seg中的内联标记及其包含的原始格式代码（如bpt、ept、ph），只保留文本
+        const seg = segMatch[1]
+          .replace(/<(bpt|ept|ph|it)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+          .replace(/<[^>]+>/g, '');
+        variants.push({ lang: normalizeLanguage(lang), text: unescapeXml(seg) });
+      }
+    }
+    if (variants.length < 2) {
+      continue;
+    }
+
+    const provider = readProp(unitBody, 'x-provider');
+    const override = readProp(unitBody, 'x-override') === 'true';
+    const unitSrcLang = readAttribute(unitAttributes, 'srclang') ?? headerSrcLang;
+    const srcLang = !unitSrcLang || unitSrcLang === '*all*' ? variants[0].lang : normalizeLanguage(unitSrcLang);
+    const source = variants.find(variant => variant.lang === srcLang) ?? variants[0];
+
+    for (const variant of variants) {
+      if (variant === source) {
+        continue;
+      }
+      entries.push({
+        source: source.text,
+        target: variant.text,
+        from: source.lang,
+        to: variant.lang,
+        ...(provider ? { provider } : {}),
+        ...(override ? { override: true } : {})
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * 读取XML属性值
+ * @param attributes 元素的属性文本
+ * @param name 属性名
+ * @returns 属性值，不存在时返回undefined
+ */
+function readAttribute(attributes: string, name: string): string | undefined {
+  const pattern = new RegExp(`(?:^|\\s)${name.replace(':', '\\:')}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i');
+  const match = pattern.exec(attributes);
+  if (!match) {
+    return undefined;
+  }
+  return unescapeXml(match[2] ?? match[3]);
+}
+
+/**
+ * 读取翻译单元中指定类型的prop元素
+ * @param unitBody 翻译单元的内容
+ * @param type prop类型
+ * @returns prop的文本，不存在时返回undefined
+ */
+function readProp(unitBody: string, type: string): string | undefined {
+  const pattern = new RegExp(`<prop\\b[^>]*type\\s*=\\s*["']${type}["'][^>]*>([\\s\\S]*?)<\\/prop>`, 'i');
+  const match = pattern.exec(unitBody);
+  return match ? unescapeXml(match[1].trim()) : undefined;
+}
+
+/**
+ * 还原XML实体
+ * @param text 含有XML实体的文本
+ * @returns 还原后的文本
+ */
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&'); // 必须最后替换&字符
+}
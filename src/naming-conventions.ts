@@ -0,0 +1,170 @@
+/**
+ * 命名规范模块
+ *
+ * 该模块记录各编程语言惯用的标识符命名格式，
+ * 用于在翻译结果中优先推荐符合当前文件语言规范的命名格式。
+ * 同一语言中类型和常量的命名格式与变量不同（如Java的类名使用PascalCase），根据光标前的代码推断。
+ * 格式转换识别的缩写词由uliTranslation.naming.acronyms设置
+ *
+ * @author uli
+ * @version 1.2.0
+ */
+
+import * as vscode from 'vscode';
+import { DEFAULT_ACRONYMS, NAMING_FORMATS, NamingFormat, setDefaultAcronyms } from './utils';
+
+/**
+ * 默认的命名格式
+ */
+const DEFAULT_FORMAT = 'camelCase';
+
+/**
+ * 各语言惯用的变量和函数命名格式，键为VSCode的语言标识
+ */
+const LANGUAGE_CONVENTIONS: { [languageId: string]: string } = {
+  'python': 'snake_case',
+  'ruby': 'snake_case',
+  'rust': 'snake_case',
+  'elixir': 'snake_case',
+  'erlang': 'snake_case',
+  'perl': 'snake_case',
+  'r': 'snake_case',
+  'sql': 'snake_case',
+  'shellscript': 'snake_case',
+  'lua': 'snake_case',
+  'c': 'snake_case',
+  'css': 'kebab-case',
+  'scss': 'kebab-case',
+  'less': 'kebab-case',
+  'html': 'kebab-case',
+  'lisp': 'kebab-case',
+  'clojure': 'kebab-case',
+  'csharp': 'PascalCase',
+  'powershell': 'PascalCase',
+  'vb': 'PascalCase'
+};
+
+/**
+ * 根据光标前的代码推断命名格式的规则
+ *
+ * @property languages - 适用的语言标识
+ * @property pattern - 匹配光标所在行光标前文本的正则表达式
+ * @property format - 匹配时使用的命名格式标识
+ */
+interface ContextRule {
+  languages: string[];
+  pattern: RegExp;
+  format: string;
+}
+
+/**
+ * 根据光标前的代码推断命名格式的规则，按顺序匹配
+ */
+const CONTEXT_RULES: ContextRule[] = [
+  // 类型声明使用大驼峰
+  {
+    languages: ['java', 'kotlin', 'scala', 'groovy', 'csharp', 'cpp', 'dart', 'swift', 'php', 'javascript', 'javascriptreact'],
+    pattern: /\b(class|interface|enum|record|struct|trait|protocol|object)\s+$/,
+    format: 'PascalCase'
+  },
+  {
+    languages: ['typescript', 'typescriptreact'],
+    pattern: /\b(class|interface|enum|type|namespace)\s+$/,
+    format: 'PascalCase'
+  },
+  {
+    languages: ['python', 'ruby'],
+    pattern: /\b(class|module)\s+$/,
+    format: 'PascalCase'
+  },
+  {
+    languages: ['rust'],
+    pattern: /\b(struct|enum|trait|type|union)\s+$/,
+    format: 'PascalCase'
+  },
+  // 常量使用全大写下划线格式
+  {
+    languages: ['java', 'groovy'],
+    pattern: /\bstatic\s+final\s+[\w<>[\],.? ]+\s+$/,
+    format: 'CONSTANT_CASE'
+  },
+  {
+    languages: ['kotlin'],
+    pattern: /\bconst\s+val\s+$/,
+    format: 'CONSTANT_CASE'
+  },
+  {
+    languages: ['rust'],
+    pattern: /\b(const|static(\s+mut)?)\s+$/,
+    format: 'CONSTANT_CASE'
+  },
+  {
+    languages: ['c', 'cpp'],
+    pattern: /^\s*#\s*define\s+$/,
+    format: 'CONSTANT_CASE'
+  }
+];
+
+/**
+ * 根据格式标识查找命名格式
+ * @param id 格式标识
+ * @returns 命名格式，未知的格式标识返回undefined
+ */
+export function getNamingFormat(id: string): NamingFormat | undefined {
+  return NAMING_FORMATS.find(namingFormat => namingFormat.id === id);
+}
+
+/**
+ * 获取语言惯用的命名格式
+ * @param languageId VSCode的语言标识
+ * @param linePrefix 标识符所在行中标识符之前的文本，用于识别类型和常量声明
+ * @returns 该语言惯用的命名格式，未记录的语言使用小驼峰格式
+ * @example
+ * // 返回: PascalCase
+ * getPreferredFormat('java', 'public class ');
+ */
+export function getPreferredFormat(languageId: string, linePrefix: string = ''): NamingFormat {
+  const rule = linePrefix
+    ? CONTEXT_RULES.find(item => item.languages.includes(languageId) && item.pattern.test(linePrefix))
+    : undefined;
+  return getNamingFormat(rule?.format ?? LANGUAGE_CONVENTIONS[languageId] ?? DEFAULT_FORMAT)!;
+}
+
+/**
+ * 获取文档中指定位置的标识符惯用的命名格式
+ * @param document 文档
+ * @param position 标识符的起始位置
+ * @returns 符合当前文件语言和上下文的命名格式
+ */
+export function getPreferredFormatAt(document: vscode.TextDocument, position: vscode.Position): NamingFormat {
+  return getPreferredFormat(document.languageId, document.lineAt(position.line).text.substring(0, position.character));
+}
+
+/**
+ * 将推荐的命名格式排在最前面，其余命名格式保持原来的顺序
+ * @param formats 命名格式列表
+ * @param preferred 推荐的命名格式
+ * @returns 排序后的新列表
+ */
+export function sortByPreference(formats: readonly NamingFormat[], preferred: NamingFormat): NamingFormat[] {
+  return [...formats].sort((a, b) => Number(b === preferred) - Number(a === preferred));
+}
+
+/**
+ * 应用uliTranslation.naming.acronyms设置，并在设置变化时重新应用
+ *
+ * @param context 扩展上下文，用于管理资源
+ */
+export function registerNamingSettings(context: vscode.ExtensionContext): void {
+  const apply = () => setDefaultAcronyms(
+    vscode.workspace.getConfiguration('uliTranslation.naming').get<string[]>('acronyms', [...DEFAULT_ACRONYMS])
+  );
+  apply();
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('uliTranslation.naming.acronyms')) {
+        apply();
+      }
+    })
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * 命名偏好模块
+ *
+ * 记录用户为每个原文在每种文件语言中选择的命名格式和候选名称，再次翻译相同的原文时排在选项列表的最前面，
+ * 也可以不弹出选项列表，直接按上次的选择替换。命名偏好保存在全局状态中，
+ * 取代旧版本以“原文|选项名称”为键写入翻译缓存、但从未被读取的格式化结果
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { getSelectionRanges } from './format-commands';
+import { getLanguageSettings } from './language-picker';
+import { TranslationCache } from './translation-cache';
+import { NAMING_FORMATS } from './utils';
+
+/**
+ * 命名偏好
+ *
+ * @property text - 原文
+ * @property from - 源语言
+ * @property languageId - 选择时所在文件的语言标识
+ * @property formatId - 选择的命名格式标识
+ * @property result - 选择的英文短语（译文或候选名称的短语）
+ * @property name - 替换到代码中的名称
+ * @property timestamp - 最近一次选择或使用的时间戳
+ */
+export interface NamingPreference {
+  text: string;
+  from: string;
+  languageId: string;
+  formatId: string;
+  result: string;
+  name: string;
+  timestamp: number;
+}
+
+/**
+ * 记录命名偏好时需要提供的字段
+ */
+export type NamingPreferenceRecord = Omit<NamingPreference, 'timestamp'>;
+
+/**
+ * 最多保存的命名偏好数量，超出时删除最久未使用的记录
+ */
+const MAX_PREFERENCES = 1000;
+
+/**
+ * 旧版本写入翻译缓存的格式化结果是否已经清除，在全局状态中的键
+ */
+const LEGACY_PURGED_KEY = 'uliTranslation.legacyFormatCachePurged';
+
+/**
+ * 旧版本选项列表中命名格式的名称，用于识别以“原文|选项名称”为键的缓存条目
+ */
+const LEGACY_FORMAT_LABELS = [
+  ...NAMING_FORMATS.map(namingFormat => namingFormat.label),
+  '中划线格式(大) Kebab-Case'
+];
+
+/**
+ * 命名偏好
+ */
+export class NamingPreferences {
+  // 命名偏好在全局状态中的键
+  private static readonly STATE_KEY = 'uliTranslation.namingPreferences';
+
+  // 命名偏好，按最近使用的时间从新到旧排列
+  private preferences: NamingPreference[];
+
+  /**
+   * 构造函数
+   * @param context 扩展上下文，用于读写全局状态
+   */
+  constructor(private readonly context: vscode.ExtensionContext) {
+    this.preferences = context.globalState.get<NamingPreference[]>(NamingPreferences.STATE_KEY, []);
+  }
+
+  /**
+   * 获取原文在指定语言中的命名偏好
+   * @param text 原文
+   * @param from 源语言
+   * @param languageId 文件的语言标识
+   * @returns 命名偏好，没有选择过时返回undefined
+   */
+  public get(text: string, from: string, languageId: string): NamingPreference | undefined {
+    const key = text.trim();
+    return this.preferences.find(preference =>
+      preference.text === key && preference.from === from && preference.languageId === languageId);
+  }
+
+  /**
+   * 记录命名偏好，同一原文、源语言和文件语言只保留最新的选择
+   * @param record 命名偏好
+   */
+  public record(record: NamingPreferenceRecord): void {
+    const preference: NamingPreference = { ...record, text: record.text.trim(), timestamp: Date.now() };
+    if (!preference.text || !preference.name) {
+      return;
+    }
+    const existing = this.get(preference.text, preference.from, preference.languageId);
+    this.preferences = [preference, ...this.preferences.filter(item => item !== existing)].slice(0, MAX_PREFERENCES);
+    this.save();
+  }
+
+  /**
+   * 清空所有命名偏好
+   * @returns 删除的记录数量
+   */
+  public clear(): number {
+    const count = this.preferences.length;
+    this.preferences = [];
+    this.save();
+    return count;
+  }
+
+  /**
+   * 将命名偏好写入全局状态
+   */
+  private save(): void {
+    this.context.globalState.update(NamingPreferences.STATE_KEY, this.preferences);
+  }
+}
+
+/**
+ * 删除旧版本以“原文|选项名称”为键写入翻译缓存的格式化结果
+ * 这些条目从未被读取，只会占用缓存空间并出现在缓存浏览器中，升级后只需要清除一次
+ *
+ * @param context 扩展上下文，用于记录是否已经清除
+ * @param cache 翻译缓存
+ */
+export function purgeLegacyFormatEntries(context: vscode.ExtensionContext, cache: TranslationCache): void {
+  if (context.globalState.get<boolean>(LEGACY_PURGED_KEY, false)) {
+    return;
+  }
+  const removed = cache.deleteWhere(entry => {
+    const index = entry.text.lastIndexOf('|');
+    if (index < 0 || entry.override) {
+      return false;
+    }
+    const label = entry.text.substring(index + 1);
+    return label.startsWith('替换为') || LEGACY_FORMAT_LABELS.includes(label);
+  });
+  if (removed > 0) {
+    console.log(`已删除${removed}条旧版本按命名格式保存的翻译缓存`);
+  }
+  context.globalState.update(LEGACY_PURGED_KEY, true);
+}
+
+/**
+ * 不弹出选项列表，将所有选择区域的文本替换为上次为其选择的名称
+ * 不需要调用翻译API；没有选择过的文本保持不变并提示用户
+ *
+ * @param preferences 命名偏好
+ */
+async function applyLastChoice(preferences: NamingPreferences): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showInformationMessage('没有打开的编辑器');
+    return;
+  }
+
+  const document = editor.document;
+  const ranges = getSelectionRanges(editor).filter(range => document.getText(range).trim());
+  if (ranges.length === 0) {
+    vscode.window.showInformationMessage('请先选择要替换的文本');
+    return;
+  }
+
+  const { from } = getLanguageSettings();
+  const replacements: { range: vscode.Range; preference: NamingPreference }[] = [];
+  const missing = new Set<string>();
+  for (const range of ranges) {
+    const text = document.getText(range);
+    const preference = preferences.get(text, from, document.languageId);
+    if (preference) {
+      replacements.push({ range, preference });
+    } else {
+      missing.add(text.trim());
+    }
+  }
+
+  if (missing.size > 0) {
+    vscode.window.showInformationMessage(`「${[...missing].join('」、「')}」还没有选择过命名，请先使用翻译命令选择一次`);
+  }
+  if (replacements.length === 0) {
+    return;
+  }
+
+  const success = await editor.edit(editBuilder => {
+    for (const { range, preference } of replacements) {
+      editBuilder.replace(range, preference.name);
+    }
+  });
+  if (!success) {
+    vscode.window.showErrorMessage('替换文本失败');
+    return;
+  }
+  // 更新使用时间，避免常用的记录因数量限制被删除
+  new Set(replacements.map(item => item.preference)).forEach(preference => preferences.record(preference));
+}
+
+/**
+ * 注册按上次的选择替换和清空命名偏好的命令
+ *
+ * @param context 扩展上下文，用于注册命令和管理资源
+ * @param preferences 命名偏好
+ */
+export function registerNamingPreferences(context: vscode.ExtensionContext, preferences: NamingPreferences): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('uli-translation.applyLastChoice', () => applyLastChoice(preferences)),
+    vscode.commands.registerCommand('uli-translation.clearNamingPreferences', async () => {
+      const confirm = await vscode.window.showWarningMessage(
+        '确定要清空所有命名偏好吗？翻译结果中将不再优先显示上次的选择',
+        { modal: true },
+        '清空'
+      );
+      if (confirm === '清空') {
+        const count = preferences.clear();
+        vscode.window.showInformationMessage(`已清空${count}条命名偏好`);
+      }
+    })
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * 命名模板模块
+ *
+ * 团队的命名规范除了命名格式之外，往往还要求前缀、后缀和缩写（如布尔值以is开头、事件处理函数以handle开头、
+ * configuration缩写为config）。命名模板在uliTranslation.naming.templates中定义，可以保存在用户设置或工作区设置中，
+ * 作为额外的命名格式显示在翻译结果中，通过utils.ts中的格式转换函数生成标识符
+ *
+ * @author uli
+ * @version 1.1.0
+ */
+
+import * as vscode from 'vscode';
+import { sanitizeWords, toIdentifier } from './identifier-sanitizer';
+import { getNamingFormat } from './naming-conventions';
+import { NamingFormat, splitWords } from './utils';
+
+/**
+ * 命名模板格式标识的前缀，用于与内置的命名格式区分
+ */
+const TEMPLATE_ID_PREFIX = 'template:';
+
+/**
+ * 命名模板
+ *
+ * @property name - 模板名称，显示在翻译结果的选项中
+ * @property baseCase - 使用的命名格式标识（如camelCase）
+ * @property prefix - 添加在译文前的单词（如is、handle），译文已经以这些单词开头时不重复添加
+ * @property suffix - 添加在译文后的单词（如list、handler）
+ * @property abbreviations - 单词的缩写，键为完整的单词（不区分大小写），值为缩写（如configuration: config）
+ * @property languages - 适用的语言标识，为空时适用于所有语言
+ */
+export interface NamingTemplate {
+  name: string;
+  baseCase: string;
+  prefix?: string;
+  suffix?: string;
+  abbreviations?: { [word: string]: string };
+  languages?: string[];
+}
+
+/**
+ * 获取适用于指定语言的命名模板，忽略名称为空或命名格式无效的模板
+ * @param languageId VSCode的语言标识
+ * @returns 命名模板
+ */
+export function getNamingTemplates(languageId: string): NamingTemplate[] {
+  const templates = vscode.workspace
+    .getConfiguration('uliTranslation.naming')
+    .get<NamingTemplate[]>('templates', []);
+  return templates.filter(template =>
+    template?.name?.trim() &&
+    getNamingFormat(template.baseCase) &&
+    (!template.languages?.length || template.languages.includes(languageId))
+  );
+}
+
+/**
+ * 按命名模板将译文转换为标识符
+ *
+ * 先清理译文并替换缩写，再添加前缀和后缀，最后使用模板的命名格式转换，
+ * 与语言关键字冲突时按语言的惯例转义
+ *
+ * @param text 译文
+ * @param template 命名模板
+ * @param languageId VSCode的语言标识
+ * @returns 标识符，译文中没有可以组成标识符的单词时返回undefined
+ * @example
+ * // 返回: "isConfigValid"
+ * applyTemplate('configuration valid', { name: '布尔值', baseCase: 'camelCase', prefix: 'is',
+ *   abbreviations: { configuration: 'config' } }, 'typescript');
+ */
+export function applyTemplate(text: string, template: NamingTemplate, languageId: string): string | undefined {
+  const abbreviations = new Map(
+    Object.entries(template.abbreviations ?? {}).map(([word, abbreviation]) => [word.toLowerCase(), abbreviation])
+  );
+  const words = splitWords(sanitizeWords(text)).map(word => abbreviations.get(word.toLowerCase()) ?? word);
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  const prefix = splitWords(template.prefix ?? '');
+  const hasPrefix = prefix.length > 0 &&
+    prefix.every((word, index) => words[index]?.toLowerCase() === word.toLowerCase());
+  const suffix = splitWords(template.suffix ?? '');
+  const hasSuffix = suffix.length > 0 &&
+    suffix.every((word, index) => words[words.length - suffix.length + index]?.toLowerCase() === word.toLowerCase());
+
+  const parts = [...(hasPrefix ? [] : prefix), ...words, ...(hasSuffix ? [] : suffix)];
+  return toIdentifier(parts.join(' '), getNamingFormat(template.baseCase)!, languageId);
+}
+
+/**
+ * 将命名模板转换为命名格式，以便与内置的命名格式一样使用
+ * 译文无法转换为标识符时格式化结果为空字符串
+ *
+ * @param template 命名模板
+ * @param languageId VSCode的语言标识
+ * @returns 命名格式，格式标识为"template:模板名称"
+ */
+export function toTemplateFormat(template: NamingTemplate, languageId: string): NamingFormat {
+  return {
+    id: `${TEMPLATE_ID_PREFIX}${template.name}`,
+    label: template.name,
+    format: (text: string) => applyTemplate(text, template, languageId) ?? '',
+    identifier: getNamingFormat(template.baseCase)!.identifier
+  };
+}
+
+/**
+ * 获取适用于指定语言的命名模板对应的命名格式
+ * @param languageId VSCode的语言标识
+ * @returns 命名格式
+ */
+export function getTemplateFormats(languageId: string): NamingFormat[] {
+  return getNamingTemplates(languageId).map(template => toTemplateFormat(template, languageId));
+}
+
+/**
+ * 判断命名格式是否由命名模板生成
+ * 命名模板生成的结果已经是合法的标识符，不需要再次清理
+ *
+ * @param namingFormat 命名格式
+ * @returns 是否由命名模板生成
+ */
+export function isTemplateFormat(namingFormat: NamingFormat): boolean {
+  return namingFormat.id.startsWith(TEMPLATE_ID_PREFIX);
+}
+
+/**
+ * 根据格式标识查找内置的命名格式或命名模板
+ * @param id 格式标识
+ * @param languageId VSCode的语言标识
+ * @returns 命名格式，未知的格式标识或模板已被删除时返回undefined
+ */
+export function resolveNamingFormat(id: string, languageId: string): NamingFormat | undefined {
+  if (!id.startsWith(TEMPLATE_ID_PREFIX)) {
+    return getNamingFormat(id);
+  }
+  return getTemplateFormats(languageId).find(namingFormat => namingFormat.id === id);
+}
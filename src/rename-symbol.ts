@@ -0,0 +1,178 @@
+/**
+ * 翻译并重命名符号模块
+ *
+ * 将选中的中文或拼音标识符翻译为英文并格式化后，调用当前语言的重命名提供者重命名符号，
+ * 使所有文件中对该符号的引用同时更新；应用修改前可以在重构预览中确认
+ *
+ * @author uli
+ * @version 1.3.0
+ */
+
+import * as vscode from 'vscode';
+import { toIdentifier } from './identifier-sanitizer';
+import { getLanguageSettings } from './language-picker';
+import { getPreferredFormatAt, sortByPreference } from './naming-conventions';
+import { TranslationOutcome, TranslatorRegistry } from './translator-registry';
+import { NAMING_FORMATS } from './utils';
+
+/**
+ * 检查光标位置的符号是否可以重命名
+ *
+ * @param document 文档
+ * @param position 符号所在位置
+ * @returns 符号的范围
+ * @throws Error 当前语言没有重命名提供者或该位置不能重命名时抛出错误
+ */
+async function prepareRename(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Range> {
+  let result: vscode.Range | { range: vscode.Range; placeholder: string } | undefined;
+  try {
+    result = await vscode.commands.executeCommand<typeof result>('vscode.prepareRename', document.uri, position);
+  } catch (error) {
+    throw new Error(`该位置不能重命名: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!result) {
+    throw new Error(`${document.languageId}语言没有提供重命名符号的功能`);
+  }
+  return result instanceof vscode.Range ? result : result.range;
+}
+
+/**
+ * 让用户选择新名称的命名格式，符合当前文件语言和上下文命名规范的格式排在最前面
+ * @param document 文档
+ * @param range 符号的范围
+ * @param translation 译文
+ * @returns 格式化后的新名称，用户取消时返回undefined
+ */
+async function pickNewName(
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  translation: string
+): Promise<string | undefined> {
+  const original = document.getText(range);
+  const identifierFormats = NAMING_FORMATS.filter(namingFormat => namingFormat.identifier);
+  const names: vscode.QuickPickItem[] = sortByPreference(identifierFormats, getPreferredFormatAt(document, range.start))
+    .flatMap(namingFormat => {
+      const label = toIdentifier(translation, namingFormat, document.languageId);
+      return label ? [{ label, description: namingFormat.label }] : [];
+    });
+  if (names.length === 0) {
+    vscode.window.showWarningMessage(`译文「${translation}」无法转换为合法的标识符，已取消本次重命名`);
+    return undefined;
+  }
+  const items = names.filter(item => item.label !== original);
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: `翻译并重命名符号「${original}」`,
+    placeHolder: `译文: ${translation}`,
+    matchOnDescription: true
+  });
+  return selected?.label;
+}
+
+/**
+ * 使用译文重命名符号
+ *
+ * 让用户选择命名格式后调用重命名提供者，开启了uliTranslation.rename.preview时在重构预览中确认后再应用修改
+ *
+ * @param document 文档
+ * @param position 符号所在位置
+ * @param translation 符号名称的译文
+ * @returns 是否已重命名
+ */
+export async function renameSymbolWithTranslation(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  translation: string
+): Promise<boolean> {
+  const range = await prepareRename(document, position);
+  const original = document.getText(range);
+  const newName = await pickNewName(document, range, translation);
+  if (!newName) {
+    return false;
+  }
+
+  const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit | undefined>(
+    'vscode.executeDocumentRenameProvider',
+    document.uri,
+    position,
+    newName
+  );
+  if (!edit || edit.size === 0) {
+    throw new Error(`无法将「${original}」重命名为「${newName}」`);
+  }
+
+  // 将所有修改标记为需要确认，以便在重构预览中查看每个文件的修改
+  const preview = vscode.workspace.getConfiguration('uliTranslation.rename').get<boolean>('preview', true);
+  let applied = edit;
+  if (preview) {
+    applied = new vscode.WorkspaceEdit();
+    const metadata: vscode.WorkspaceEditEntryMetadata = {
+      label: `将「${original}」重命名为「${newName}」`,
+      needsConfirmation: true
+    };
+    for (const [uri, textEdits] of edit.entries()) {
+      for (const textEdit of textEdits) {
+        applied.replace(uri, textEdit.range, textEdit.newText, metadata);
+      }
+    }
+  }
+
+  const success = await vscode.workspace.applyEdit(applied, { isRefactoring: true });
+  if (success) {
+    vscode.window.setStatusBarMessage(`已将「${original}」重命名为「${newName}」`, 3000);
+  }
+  return success;
+}
+
+/**
+ * 注册翻译并重命名符号的命令
+ *
+ * @param context 扩展上下文，用于注册命令和管理资源
+ * @param registry 翻译器注册表
+ */
+export function registerRenameCommand(context: vscode.ExtensionContext, registry: TranslatorRegistry): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('uli-translation.translateAndRename', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        vscode.window.showInformationMessage('没有打开的编辑器');
+        return;
+      }
+
+      try {
+        // 先确认该位置可以重命名，避免浪费翻译请求
+        const position = editor.selection.start;
+        const range = editor.selection.isEmpty ? await prepareRename(editor.document, position) : editor.selection;
+        const text = editor.document.getText(range).trim();
+        if (!text) {
+          vscode.window.showInformationMessage('请先选择要重命名的符号');
+          return;
+        }
+
+        const statusBarMessage = vscode.window.setStatusBarMessage(`正在翻译「${text}」...`);
+        let outcome: TranslationOutcome;
+        try {
+          outcome = await registry.translate(text, getLanguageSettings().from, 'en');
+        } finally {
+          statusBarMessage.dispose();
+        }
+
+        // 丢失了占位符或标记的译文不可用，取消重命名
+        if (outcome.lostPlaceholders.length > 0) {
+          vscode.window.showWarningMessage(
+            `译文中丢失了占位符或标记：${outcome.lostPlaceholders.join('、')}，已取消本次重命名`
+          );
+          return;
+        }
+        if (outcome.lostTerms.length > 0) {
+          vscode.window.showWarningMessage(
+            `译文中没有使用术语表规定的译文：${outcome.lostTerms.map(term => `${term.source}→${term.target}`).join('、')}，请检查后再使用`
+          );
+        }
+        await renameSymbolWithTranslation(editor.document, position, outcome.text);
+      } catch (error) {
+        vscode.window.showErrorMessage(`翻译并重命名符号失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      }
+    })
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * 状态栏模块
+ *
+ * 在状态栏中常驻显示当前使用的翻译API和翻译语言，翻译API配置无效或最近一次调用失败（如访问频率受限、余额不足）时显示警告。
+ * 点击状态栏可以切换默认翻译API和翻译语言，工作区打开时修改写入工作区设置
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { getLanguageName } from './languages';
+import { getLanguageSettings, selectLanguage, swapLanguages } from './language-picker';
+import { TranslatorRegistry } from './translator-registry';
+
+/**
+ * 状态栏菜单选项
+ */
+interface StatusMenuItem extends vscode.QuickPickItem {
+  run?: () => Thenable<unknown>;
+}
+
+/**
+ * 获取状态栏菜单修改设置时写入的范围
+ * @returns 打开了工作区时为工作区设置，否则为用户设置
+ */
+function getConfigurationTarget(): vscode.ConfigurationTarget {
+  return vscode.workspace.workspaceFolders?.length
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+}
+
+/**
+ * 翻译状态栏
+ */
+export class TranslationStatusBar implements vscode.Disposable {
+  private readonly item = vscode.window.createStatusBarItem('uliTranslation.status', vscode.StatusBarAlignment.Right, 100);
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /**
+   * 构造函数
+   * @param registry 翻译器注册表
+   */
+  constructor(private readonly registry: TranslatorRegistry) {
+    this.item.name = 'ULI Translation';
+    this.item.command = 'uli-translation.showStatusMenu';
+
+    this.disposables.push(
+      this.item,
+      registry.onDidChangeStatus(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('uliTranslation')) {
+          this.update();
+        }
+      })
+    );
+    this.update();
+  }
+
+  /**
+   * 获取需要提示用户的问题
+   * @returns 问题列表，没有问题时为空数组
+   */
+  public getProblems(): string[] {
+    const problems: string[] = [];
+    const defaultTranslator = this.registry.get(this.registry.getDefaultId());
+    const resolved = this.registry.resolve();
+    if (!resolved) {
+      problems.push('所有翻译API的配置都无效');
+    } else if (defaultTranslator && defaultTranslator !== resolved) {
+      problems.push(`默认翻译API ${defaultTranslator.displayName}配置无效，当前使用${resolved.displayName}`);
+    }
+    for (const translator of this.registry.getAll()) {
+      const state = this.registry.getError(translator.id);
+      if (state) {
+        problems.push(`${translator.displayName}最近一次调用失败（${new Date(state.timestamp).toLocaleTimeString()}）: ${state.error.message}`);
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * 更新状态栏的文字、提示和背景色
+   */
+  public update(): void {
+    if (!vscode.workspace.getConfiguration('uliTranslation.statusBar').get<boolean>('enable', true)) {
+      this.item.hide();
+      return;
+    }
+
+    const translator = this.registry.resolve();
+    const { from, to } = getLanguageSettings();
+    const problems = this.getProblems();
+
+    this.item.text = `${problems.length > 0 ? '$(warning)' : '$(globe)'} ${translator?.shortName ?? '未配置'} ${getLanguageName(from)}→${getLanguageName(to)}`;
+    this.item.backgroundColor = problems.length > 0
+      ? new vscode.ThemeColor('statusBarItem.warningBackground')
+      : undefined;
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown('**ULI Translation**\n\n');
+    tooltip.appendText(`翻译API: ${translator?.displayName ?? '未配置'}\n语言: ${getLanguageName(from)} → ${getLanguageName(to)}`);
+    if (problems.length > 0) {
+      tooltip.appendMarkdown('\n\n---\n\n');
+      tooltip.appendText(problems.map(problem => `⚠ ${problem}`).join('\n'));
+    }
+    tooltip.appendMarkdown('\n\n点击切换翻译API和翻译语言');
+    this.item.tooltip = tooltip;
+    this.item.show();
+  }
+
+  /**
+   * 显示切换翻译API和翻译语言的菜单
+   */
+  public async showMenu(): Promise<void> {
+    const configurationTarget = getConfigurationTarget();
+    const defaultId = this.registry.getDefaultId();
+    const { from, to } = getLanguageSettings();
+
+    const items: StatusMenuItem[] = [
+      { label: '默认翻译API', kind: vscode.QuickPickItemKind.Separator },
+      ...this.registry.getAll().map(translator => ({
+        label: `${translator.id === defaultId ? '$(check)' : '$(blank)'} ${translator.displayName}`,
+        description: translator.isConfigValid() ? undefined : '配置无效',
+        detail: this.registry.getError(translator.id)?.error.message,
+        run: () => vscode.workspace
+          .getConfiguration('uliTranslation')
+          .update('defaultTranslator', translator.id, configurationTarget)
+      })),
+      { label: '翻译语言', kind: vscode.QuickPickItemKind.Separator },
+      {
+        label: '$(arrow-right) 选择源语言',
+        description: getLanguageName(from),
+        run: () => selectLanguage(this.registry, false, configurationTarget)
+      },
+      {
+        label: '$(arrow-left) 选择目标语言',
+        description: getLanguageName(to),
+        run: () => selectLanguage(this.registry, true, configurationTarget)
+      },
+      {
+        label: '$(arrow-swap) 互换源语言和目标语言',
+        run: () => swapLanguages(configurationTarget)
+      }
+    ];
+
+    // 配置无效的翻译API提供设置入口
+    const invalid = this.registry.getAll().filter(translator => !translator.isConfigValid());
+    if (invalid.length > 0) {
+      items.push(
+        { label: '配置', kind: vscode.QuickPickItemKind.Separator },
+        ...invalid.map(translator => ({
+          label: `$(gear) 配置${translator.apiName}`,
+          run: () => vscode.commands.executeCommand('workbench.action.openSettings', translator.configSection)
+        }))
+      );
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: 'ULI Translation',
+      placeHolder: configurationTarget === vscode.ConfigurationTarget.Workspace
+        ? '切换翻译API和翻译语言（保存到工作区设置）'
+        : '切换翻译API和翻译语言'
+    });
+    await selected?.run?.();
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
+
+/**
+ * 注册状态栏以及状态栏菜单命令
+ *
+ * @param context 扩展上下文，用于注册命令和管理资源
+ * @param registry 翻译器注册表
+ */
+export function registerStatusBar(context: vscode.ExtensionContext, registry: TranslatorRegistry): void {
+  const statusBar = new TranslationStatusBar(registry);
+  context.subscriptions.push(
+    statusBar,
+    vscode.commands.registerCommand('uli-translation.showStatusMenu', () => statusBar.showMenu())
+  );
+}
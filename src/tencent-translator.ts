@@ -3,6 +3,9 @@ import * as crypto from 'crypto';
 import * as https from 'https';
 import * as querystring from 'querystring';
 import { TranslationCache } from './translation-cache';
+import { BaseTranslator, TranslationError } from './translator';
+import { WorkspaceGlossary } from './glossary';
+import { AUTO_LANGUAGE, fromProviderLanguage } from './languages';
 
 /**
  * 腾讯云机器翻译API配置接口
@@ -11,12 +14,14 @@ import { TranslationCache } from './translation-cache';
  * @property secretKey - 腾讯云API的SecretKey，与SecretId配对使用
  * @property region - 腾讯云API的地域，默认为ap-guangzhou
  * @property projectId - 项目ID，默认为0
+ * @property termRepoIds - 腾讯云术语库ID列表，配置后由腾讯云术语库代替本地术语表处理术语
  */
 export interface TencentTranslatorConfig {
   secretId: string;
   secretKey: string;
   region?: string;
   projectId?: number;
+  termRepoIds?: string[];
 }
 
 /**
@@ -37,6 +42,48 @@ export const TENCENT_ERROR_CODES: {[key: string]: string} = {
   'UnauthorizedOperation': '未授权操作，请检查CAM策略',
 };
 
+/**
+ * 可切换到其他翻译API重试的腾讯云机器翻译API错误码
+ * 包括账户余额不足、账户隔离、请求频率超限和内部错误等与请求内容无关的错误
+ */
+export const TENCENT_RETRYABLE_ERROR_CODES: string[] = [
+  'FailedOperation.NoFreeAmount',
+  'FailedOperation.ServiceIsolate',
+  'InternalError',
+  'RequestLimitExceeded'
+];
+
+/**
+ * 腾讯云机器翻译API中欧洲语言及土耳其语可翻译成的目标语言
+ */
+const EUROPEAN_TARGETS = ['zh', 'zh-TW', 'en', 'fr', 'es', 'it', 'de', 'tr', 'ru', 'pt'];
+
+/**
+ * 腾讯云机器翻译API支持的语言对
+ * 键为源语言（规范语言代码），值为可翻译成的目标语言
+ * 参见https://cloud.tencent.com/document/api/551/15619
+ */
+export const TENCENT_LANGUAGE_PAIRS: { [from: string]: string[] } = {
+  'zh': ['zh-TW', 'en', 'ja', 'ko', 'fr', 'es', 'it', 'de', 'tr', 'ru', 'pt', 'vi', 'id', 'th', 'ms'],
+  'zh-TW': ['zh', 'en', 'ja', 'ko', 'fr', 'es', 'it', 'de', 'tr', 'ru', 'pt', 'vi', 'id', 'th', 'ms'],
+  'en': ['zh', 'zh-TW', 'ja', 'ko', 'fr', 'es', 'it', 'de', 'tr', 'ru', 'pt', 'vi', 'id', 'th', 'ms', 'ar', 'hi'],
+  'ja': ['zh', 'zh-TW', 'en', 'ko'],
+  'ko': ['zh', 'zh-TW', 'en', 'ja'],
+  'fr': EUROPEAN_TARGETS,
+  'es': EUROPEAN_TARGETS,
+  'it': EUROPEAN_TARGETS,
+  'de': EUROPEAN_TARGETS,
+  'tr': EUROPEAN_TARGETS,
+  'ru': EUROPEAN_TARGETS,
+  'pt': EUROPEAN_TARGETS,
+  'vi': ['zh', 'zh-TW', 'en'],
+  'id': ['zh', 'zh-TW', 'en'],
+  'th': ['zh', 'zh-TW', 'en'],
+  'ms': ['zh', 'zh-TW', 'en'],
+  'ar': ['en'],
+  'hi': ['en']
+};
+
 /**
  * 腾讯云机器翻译API封装类
  * 
@@ -45,31 +92,30 @@ export const TENCENT_ERROR_CODES: {[key: string]: string} = {
  * 
  * 腾讯云机器翻译API文档：https://cloud.tencent.com/document/product/551/15619
  */
-export class TencentTranslator {
+export class TencentTranslator extends BaseTranslator {
+  public readonly id = 'tencent';
+  public readonly displayName = '腾讯云翻译';
+  public readonly shortName = '腾讯';
+  public readonly apiName = '腾讯云机器翻译API';
+  public readonly configSection = 'uliTranslation.tencent';
+  public readonly credentialHint = 'SecretId和SecretKey';
+
   /**
    * 腾讯云机器翻译API配置对象
    * 包含secretId、secretKey、region和projectId属性
    */
   private config: TencentTranslatorConfig;
-  
-  /**
-   * 翻译缓存实例
-   * 用于缓存翻译结果，减少API调用
-   */
-  public cache: TranslationCache | null = null;
-  
-  /**
-   * 上次缓存访问时间
-   */
-  private lastCacheAccessTime: number = 0;
 
   /**
    * 构造函数
    * 初始化配置对象并从VSCode设置中加载配置
    * 
-   * @param context 可选的扩展上下文，用于初始化缓存
+   * @param cache 可选的共享翻译缓存实例
+   * @param glossary 可选的工作区术语表实例
    */
-  constructor(context?: vscode.ExtensionContext) {
+  constructor(cache?: TranslationCache, glossary?: WorkspaceGlossary) {
+    super();
+
     // 初始化配置对象
     this.config = {
       secretId: '', // 腾讯云API的SecretId
@@ -81,9 +127,14 @@ export class TencentTranslator {
     // 从VSCode设置中加载配置
     this.loadConfig();
     
-    // 如果提供了扩展上下文，初始化缓存
-    if (context) {
-      this.initCache(context);
+    // 如果提供了缓存实例，使用共享缓存
+    if (cache) {
+      this.setCache(cache);
+    }
+
+    // 如果提供了术语表实例，翻译时应用术语表
+    if (glossary) {
+      this.setGlossary(glossary);
     }
   }
 
@@ -91,48 +142,25 @@ export class TencentTranslator {
    * 从VSCode配置中加载腾讯云机器翻译API的配置
    * 读取用户在设置中配置的secretId、secretKey、region和projectId
    */
-  private loadConfig(): void {
+  protected loadConfig(): void {
     // 获取VSCode中的配置项
-    const config = vscode.workspace.getConfiguration('uliTranslation.tencent');
+    const config = vscode.workspace.getConfiguration(this.configSection);
     
     // 将配置项加载到实例变量中
     this.config = {
       secretId: config.get<string>('secretId') || '', // 腾讯云API的SecretId
       secretKey: config.get<string>('secretKey') || '', // 腾讯云API的SecretKey
       region: config.get<string>('region') || 'ap-guangzhou', // 腾讯云API的地域
-      projectId: config.get<number>('projectId') || 0 // 项目ID
+      projectId: config.get<number>('projectId') || 0, // 项目ID
+      termRepoIds: (config.get<string[]>('termRepoIds') || []).filter(id => !!id.trim()) // 术语库ID列表
     };
   }
-  
-  /**
-   * 初始化翻译缓存
-   * @param context 扩展上下文，用于持久化存储
-   * @param expirationDays 缓存过期天数，默认为3天
-   * @param maxCacheSizeMB 缓存大小限制（MB），默认为20MB
-   */
-  public initCache(context: vscode.ExtensionContext, expirationDays: number = 3, maxCacheSizeMB: number = 20): void {
-    // 创建缓存实例
-    this.cache = new TranslationCache(context, expirationDays, maxCacheSizeMB);
-    console.log(`翻译缓存已初始化，过期时间: ${expirationDays}天，缓存大小限制: ${maxCacheSizeMB}MB，当前缓存项数: ${this.cache.size()}`);
-  }
-  
-  /**
-   * 获取缓存性能指标
-   * @returns 缓存性能指标，如果缓存未初始化则返回null
-   */
-  public getCacheMetrics(): { hitRate: number; avgResponseTime: number; size: number } | null {
-    if (!this.cache) {
-      return null;
-    }
-    return this.cache.getMetrics();
-  }
 
   /**
-   * 重新加载配置
-   * 从VSCode设置中重新加载腾讯云机器翻译API的配置
+   * 配置无效时抛出的错误信息
    */
-  public reloadConfig(): void {
-    this.loadConfig();
+  protected getInvalidConfigMessage(): string {
+    return '腾讯云机器翻译API配置无效，请在设置中配置secretId和secretKey';
   }
 
   /**
@@ -148,87 +176,81 @@ export class TencentTranslator {
   }
 
   /**
-   * 翻译文本
-   * 
-   * 使用腾讯云机器翻译API将文本从一种语言翻译为另一种语言
-   * 遵循腾讯云API 3.0签名v3的要求
-   * 
-   * @param text 要翻译的文本（UTF-8编码）
-   * @param from 源语言，默认为auto（自动检测）
-   * @param to 目标语言，默认为zh（中文）
-   * @param formatOption 可选的格式化选项，用于获取特定格式的缓存结果
-   * @returns 翻译结果
-   * @throws Error 当配置无效、文本过长或API请求失败时抛出错误
+   * 检查腾讯云机器翻译API是否支持指定的语言对
+   * 腾讯云只支持部分语言之间的互译，自动检测源语言时只检查目标语言
+   *
+   * @param from 源语言（规范语言代码）
+   * @param to 目标语言（规范语言代码）
+   * @returns 是否支持
    */
-  public async translate(text: string, from: string = 'auto', to: string = 'zh', formatOption?: string): Promise<string> {
-    // 重新加载配置，确保使用最新的配置
-    this.loadConfig();
+  public supportsLanguagePair(from: string, to: string): boolean {
+    if (!super.supportsLanguagePair(from, to)) {
+      return false;
+    }
+    return from === AUTO_LANGUAGE || (TENCENT_LANGUAGE_PAIRS[from] ?? []).includes(to);
+  }
 
-    // 检查配置是否有效
+  /**
+   * 调用腾讯云语种识别API识别文本的语言
+   *
+   * @param text 要识别的文本
+   * @returns 识别出的语言（规范语言代码）
+   * @throws TranslationError 当配置无效或API请求失败时抛出错误
+   */
+  public async detectLanguage(text: string): Promise<string> {
+    this.loadConfig();
     if (!this.isConfigValid()) {
-      throw new Error('腾讯云机器翻译API配置无效，请在设置中配置secretId和secretKey');
+      throw new TranslationError(this.getInvalidConfigMessage(), this.id);
     }
 
-    // 检查文本长度，腾讯云机器翻译API对单次请求有字符限制
-    if (text.length > 2000) {
-      throw new Error('翻译文本过长，请将文本长度控制在2000字符以内');
+    let result: any;
+    try {
+      result = await this.request({ Text: text, ProjectId: this.config.projectId }, 'LanguageDetect');
+    } catch (error) {
+      throw new TranslationError(error instanceof Error ? error.message : '语种识别请求失败', this.id, undefined, true);
     }
-    
-    // 检查缓存中是否有翻译结果
-    if (this.cache) {
-      const startTime = Date.now();
-      this.lastCacheAccessTime = startTime;
-      
-      // 如果提供了格式化选项，尝试获取特定格式的缓存结果
-      let cacheKey = text;
-      if (formatOption) {
-        cacheKey = `${text}|${formatOption}`;
-      }
-      
-      const cachedResult = this.cache.get(cacheKey, from, to);
-      if (cachedResult) {
-        const responseTime = Date.now() - startTime;
-        if (responseTime > 500) {
-          console.warn(`缓存响应时间过长: ${responseTime}ms，考虑清空缓存以提高性能`);
-          // 提示用户清空缓存
-          vscode.window.showWarningMessage(
-            `翻译缓存响应时间过长(${responseTime.toFixed(0)}ms)，影响使用体验。`, 
-            '清空缓存', 
-            '查看性能指标', 
-            '忽略'
-          ).then(selection => {
-            if (selection === '清空缓存') {
-              if (this.cache) {
-                this.cache.clear();
-                vscode.window.showInformationMessage('翻译缓存已清空，性能已恢复');
-              }
-            } else if (selection === '查看性能指标') {
-              vscode.commands.executeCommand('uli-translation.showCacheMetrics');
-            }
-          });
-        } else {
-          console.log(`使用缓存的翻译结果${formatOption ? `(${formatOption})` : ''}，响应时间: ${responseTime}ms`);
-        }
-        return cachedResult;
-      }
-      
-      // 如果有格式化选项但没有找到特定格式的缓存，尝试获取原始翻译结果
-      if (formatOption) {
-        const originalCachedResult = this.cache.get(text, from, to);
-        if (originalCachedResult) {
-          console.log(`找到原始翻译缓存，但未找到${formatOption}格式的缓存`);
-          // 返回原始结果，让调用方进行格式化
-          return originalCachedResult;
-        }
-      }
+
+    const error = result.Response.Error;
+    if (error) {
+      const errorMessage = TENCENT_ERROR_CODES[error.Code] || error.Message || '未知错误';
+      throw new TranslationError(
+        `语种识别失败: ${errorMessage} (错误码: ${error.Code})`,
+        this.id,
+        error.Code,
+        TENCENT_RETRYABLE_ERROR_CODES.includes(error.Code)
+      );
     }
+    return fromProviderLanguage(this.id, result.Response.Lang || '');
+  }
 
+  /**
+   * 配置了腾讯云术语库时，术语交给腾讯云术语库处理
+   * @returns 是否使用腾讯云术语库
+   */
+  protected usesRemoteGlossary(): boolean {
+    return !!this.config.termRepoIds && this.config.termRepoIds.length > 0;
+  }
+
+  /**
+   * 调用腾讯云机器翻译API翻译文本
+   * 
+   * 遵循腾讯云API 3.0签名v3的要求
+   * 
+   * @param text 要翻译的文本（UTF-8编码）
+   * @param from 源语言
+   * @param to 目标语言
+   * @returns 翻译结果
+   * @throws Error 当API请求失败时抛出错误
+   */
+  protected async requestTranslation(text: string, from: string, to: string): Promise<string> {
     // 构建请求参数
     const params = {
       SourceText: text,
       Source: from === 'auto' ? 'auto' : from,
       Target: to,
-      ProjectId: this.config.projectId
+      ProjectId: this.config.projectId,
+      // 配置了术语库时由腾讯云按术语库翻译术语
+      ...(this.usesRemoteGlossary() ? { TermRepoIDList: this.config.termRepoIds } : {})
     };
 
     try {
@@ -259,28 +281,29 @@ export class TencentTranslator {
           errorMessage = `不支持的语言对翻译：${from} -> ${to}，请检查语言代码是否正确`;
         }
         
-        throw new Error(`翻译失败: ${errorMessage} (错误码: ${error.Code})`);
+        throw new TranslationError(
+          `翻译失败: ${errorMessage} (错误码: ${error.Code})`,
+          this.id,
+          error.Code,
+          TENCENT_RETRYABLE_ERROR_CODES.includes(error.Code)
+        );
       }
       
       // 处理翻译结果
-      const translatedText = result.Response.TargetText || '';
-      
-      // 将翻译结果存入缓存
-      if (this.cache) {
-        this.cache.set(text, translatedText, from, to);
-        console.log('翻译结果已缓存');
-      }
-      
-      return translatedText;
+      return result.Response.TargetText || '';
     } catch (error) {
       // 增强错误处理：记录详细错误信息到控制台
       console.error('腾讯云翻译请求失败:', error);
       
       // 重新抛出错误，保留原始错误信息
-      if (error instanceof Error) {
+      if (error instanceof TranslationError) {
         throw error;
       }
-      throw new Error('翻译请求失败，请检查网络连接和API配置');
+      // 网络异常、超时等请求错误可以切换到其他翻译API重试
+      if (error instanceof Error) {
+        throw new TranslationError(error.message, this.id, undefined, true);
+      }
+      throw new TranslationError('翻译请求失败，请检查网络连接和API配置', this.id, undefined, true);
     }
   }
 
@@ -291,9 +314,10 @@ export class TencentTranslator {
    * 
    * @param params 请求参数
    * @param timestamp 请求时间戳
+   * @param action 接口名称，默认为TextTranslate
    * @returns 签名和请求头
    */
-  private generateSignature(params: any, timestamp: number): { authorization: string; headers: Record<string, string> } {
+  private generateSignature(params: any, timestamp: number, action: string = 'TextTranslate'): { authorization: string; headers: Record<string, string> } {
     const service = 'tmt'; // 服务名，机器翻译为tmt
     const host = `${service}.${this.config.region}.tencentcloudapi.com`;
     const algorithm = 'TC3-HMAC-SHA256';
@@ -347,7 +371,7 @@ export class TencentTranslator {
         'Authorization': authorization,
         'Content-Type': 'application/json; charset=utf-8', // 优化：添加charset=utf-8
         'Host': host,
-        'X-TC-Action': 'TextTranslate',
+        'X-TC-Action': action,
         'X-TC-Version': '2018-03-21',
         'X-TC-Timestamp': requestTimestamp,
         'X-TC-Region': this.config.region || 'ap-guangzhou'
@@ -361,15 +385,16 @@ export class TencentTranslator {
    * 使用腾讯云API 3.0签名v3规范发送请求
    * 
    * @param params 请求参数对象
+   * @param action 接口名称，默认为TextTranslate
    * @returns 请求结果的Promise
    */
-  private request(params: any): Promise<any> {
+  private request(params: any, action: string = 'TextTranslate'): Promise<any> {
     return new Promise((resolve, reject) => {
       // 生成时间戳
       const timestamp = Math.floor(Date.now() / 1000);
       
       // 生成签名和请求头
-      const { headers } = this.generateSignature(params, timestamp);
+      const { headers } = this.generateSignature(params, timestamp, action);
       
       // 设置请求选项
       const options = {
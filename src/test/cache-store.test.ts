@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { CacheStore } from '../cache-store';
+
+/**
+ * 测试使用的缓存项
+ */
+interface TestItem {
+	result: string;
+	override?: boolean;
+}
+
+suite('Cache Store Test Suite', () => {
+	let directory: string;
+	let filePath: string;
+
+	setup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'uli-cache-store-'));
+		filePath = path.join(directory, 'translation-cache.jsonl');
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	/**
+	 * 创建存储，批量写入的延迟足够长，测试中通过flush立即写入
+	 */
+	const createStore = () => new CacheStore<TestItem>(filePath, 60 * 1000);
+
+	const line = (record: object) => `${JSON.stringify(record)}\n`;
+
+	test('missing file loads as empty', () => {
+		const result = createStore().load();
+		assert.strictEqual(result.entries.size, 0);
+		assert.strictEqual(result.corruptLines, 0);
+	});
+
+	test('replays set and delete records in order', () => {
+		const store = createStore();
+		store.recordSet('a', { result: 'A1' });
+		store.recordSet('b', { result: 'B' });
+		store.recordSet('c', { result: 'C' });
+		store.recordSet('a', { result: 'A2' });
+		store.recordDelete('b');
+		store.flush();
+
+		const result = createStore().load();
+		assert.strictEqual(result.corruptLines, 0);
+		// 更新过的缓存项排在最后，与最近写入顺序一致
+		assert.deepStrictEqual([...result.entries], [['c', { result: 'C' }], ['a', { result: 'A2' }]]);
+	});
+
+	test('records are buffered until flushed', () => {
+		const store = createStore();
+		store.recordSet('a', { result: 'A' });
+		assert.strictEqual(store.exists(), false);
+		assert.strictEqual(store.getJournalSize(), store.measure('a', { result: 'A' }));
+
+		store.flush();
+		assert.strictEqual(fs.readFileSync(filePath, 'utf8'), line({ op: 'set', key: 'a', item: { result: 'A' } }));
+	});
+
+	test('skips a truncated last line and backs up the journal', () => {
+		const content = line({ op: 'set', key: 'a', item: { result: 'A' } })
+			+ line({ op: 'set', key: 'b', item: { result: 'B' } })
+			+ '{"op":"set","key":"c","item":{"res';
+		fs.writeFileSync(filePath, content, 'utf8');
+
+		const result = createStore().load();
+		assert.strictEqual(result.corruptLines, 1);
+		assert.deepStrictEqual([...result.entries.keys()], ['a', 'b']);
+		assert.strictEqual(fs.readFileSync(`${filePath}.corrupt`, 'utf8'), content);
+
+		// 恢复后日志被重写，再次加载时不再有损坏的记录
+		const reloaded = createStore().load();
+		assert.strictEqual(reloaded.corruptLines, 0);
+		assert.deepStrictEqual([...reloaded.entries.keys()], ['a', 'b']);
+	});
+
+	test('appends after a recovered journal without merging into the broken line', () => {
+		fs.writeFileSync(filePath, line({ op: 'set', key: 'a', item: { result: 'A' } }) + '{"op":"set","ke', 'utf8');
+		const store = createStore();
+		store.load();
+		store.recordSet('b', { result: 'B' });
+		store.flush();
+
+		const result = createStore().load();
+		assert.strictEqual(result.corruptLines, 0);
+		assert.deepStrictEqual([...result.entries.keys()], ['a', 'b']);
+	});
+
+	test('recovers from a corrupt file', () => {
+		const content = 'not json\n\u0000\u0001garbage\n{"op":"unknown","key":"x"}\n';
+		fs.writeFileSync(filePath, content, 'utf8');
+
+		const result = createStore().load();
+		assert.strictEqual(result.entries.size, 0);
+		assert.strictEqual(result.corruptLines, 3);
+		assert.strictEqual(fs.readFileSync(`${filePath}.corrupt`, 'utf8'), content);
+		assert.strictEqual(fs.readFileSync(filePath, 'utf8'), '');
+		assert.strictEqual(fs.existsSync(`${filePath}.tmp`), false);
+	});
+
+	test('compaction rewrites the journal as a snapshot and keeps overrides', () => {
+		const store = createStore();
+		store.recordSet('a', { result: 'A1' });
+		store.recordSet('a', { result: 'A2' });
+		store.recordSet('b', { result: 'B' });
+		store.recordDelete('b');
+		store.recordSet('c', { result: 'C', override: true });
+		store.flush();
+
+		const entries = createStore().load().entries;
+		store.compact(entries.entries());
+
+		const content = fs.readFileSync(filePath, 'utf8');
+		assert.strictEqual(content,
+			line({ op: 'set', key: 'a', item: { result: 'A2' } })
+			+ line({ op: 'set', key: 'c', item: { result: 'C', override: true } }));
+		assert.strictEqual(store.getJournalSize(), Buffer.byteLength(content, 'utf8'));
+		assert.deepStrictEqual(createStore().load().entries.get('c'), { result: 'C', override: true });
+	});
+
+	test('compaction discards records that were not flushed', () => {
+		const store = createStore();
+		store.recordSet('a', { result: 'A' });
+		store.compact([['b', { result: 'B' }]]);
+		store.flush();
+
+		assert.deepStrictEqual([...createStore().load().entries.keys()], ['b']);
+	});
+
+	test('clear truncates the journal', () => {
+		const store = createStore();
+		store.recordSet('a', { result: 'A' });
+		store.flush();
+		store.recordSet('b', { result: 'B' });
+		store.clear();
+		store.flush();
+
+		assert.strictEqual(fs.readFileSync(filePath, 'utf8'), '');
+		assert.strictEqual(store.getJournalSize(), 0);
+	});
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+
+import { createEvictionPolicy, EvictionPolicy, LfuEvictionPolicy, LruEvictionPolicy } from '../eviction-policy';
+
+/**
+ * 依次取出并移除所有淘汰项
+ * @param policy 淘汰策略
+ * @returns 按淘汰顺序排列的缓存键
+ */
+function drain(policy: EvictionPolicy): string[] {
+	const keys: string[] = [];
+	for (let key = policy.victim(); key !== undefined; key = policy.victim()) {
+		keys.push(key);
+		policy.remove(key);
+	}
+	return keys;
+}
+
+suite('Eviction Policy Test Suite', () => {
+	suite('LRU', () => {
+		test('evicts the least recently used key first', () => {
+			const policy = new LruEvictionPolicy();
+			['a', 'b', 'c'].forEach(key => policy.add(key));
+			policy.touch('a');
+			assert.deepStrictEqual(drain(policy), ['b', 'c', 'a']);
+		});
+
+		test('adding an existing key moves it to the end', () => {
+			const policy = new LruEvictionPolicy();
+			['a', 'b', 'c'].forEach(key => policy.add(key));
+			policy.add('a');
+			assert.deepStrictEqual(drain(policy), ['b', 'c', 'a']);
+		});
+
+		test('touching or removing an unknown key is ignored', () => {
+			const policy = new LruEvictionPolicy();
+			policy.add('a');
+			policy.touch('x');
+			policy.remove('x');
+			assert.deepStrictEqual(drain(policy), ['a']);
+		});
+
+		test('clear removes all keys', () => {
+			const policy = new LruEvictionPolicy();
+			['a', 'b'].forEach(key => policy.add(key));
+			policy.clear();
+			assert.strictEqual(policy.victim(), undefined);
+		});
+	});
+
+	suite('LFU', () => {
+		test('evicts the least frequently used key first', () => {
+			const policy = new LfuEvictionPolicy();
+			['a', 'b', 'c'].forEach(key => policy.add(key));
+			policy.touch('a');
+			policy.touch('a');
+			policy.touch('b');
+			assert.deepStrictEqual(drain(policy), ['c', 'b', 'a']);
+		});
+
+		test('keys with the same frequency are evicted in access order', () => {
+			const policy = new LfuEvictionPolicy();
+			['a', 'b', 'c'].forEach(key => policy.add(key));
+			policy.touch('b');
+			policy.touch('a');
+			assert.deepStrictEqual(drain(policy), ['c', 'b', 'a']);
+		});
+
+		test('a new key is evicted before frequently used keys', () => {
+			const policy = new LfuEvictionPolicy();
+			['a', 'b'].forEach(key => policy.add(key));
+			policy.touch('a');
+			policy.touch('b');
+			policy.add('c');
+			assert.strictEqual(policy.victim(), 'c');
+		});
+
+		test('finds the next bucket after the least frequent keys are removed', () => {
+			const policy = new LfuEvictionPolicy();
+			['a', 'b', 'c'].forEach(key => policy.add(key));
+			policy.touch('b');
+			policy.touch('c');
+			policy.touch('c');
+			policy.remove('a');
+			assert.strictEqual(policy.victim(), 'b');
+		});
+
+		test('adding an existing key resets its frequency', () => {
+			const policy = new LfuEvictionPolicy();
+			['a', 'b'].forEach(key => policy.add(key));
+			policy.touch('a');
+			policy.touch('a');
+			policy.touch('b');
+			policy.add('a');
+			assert.deepStrictEqual(drain(policy), ['a', 'b']);
+		});
+
+		test('clear removes all keys', () => {
+			const policy = new LfuEvictionPolicy();
+			['a', 'b'].forEach(key => policy.add(key));
+			policy.touch('a');
+			policy.clear();
+			assert.strictEqual(policy.victim(), undefined);
+			policy.add('c');
+			assert.strictEqual(policy.victim(), 'c');
+		});
+	});
+
+	test('createEvictionPolicy falls back to LRU', () => {
+		assert.strictEqual(createEvictionPolicy('lfu').name, 'lfu');
+		assert.strictEqual(createEvictionPolicy('lru').name, 'lru');
+		assert.strictEqual(createEvictionPolicy('unknown').name, 'lru');
+		assert.strictEqual(createEvictionPolicy(undefined).name, 'lru');
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+
+import { toIdentifier } from '../identifier-sanitizer';
+import { NAMING_FORMATS, NamingFormat } from '../utils';
+
+/**
+ * 根据格式标识查找内置的命名格式
+ * @param id 格式标识
+ * @returns 命名格式
+ */
+function format(id: string): NamingFormat {
+	return NAMING_FORMATS.find(namingFormat => namingFormat.id === id)!;
+}
+
+/**
+ * 标识符转换结果：译文、格式标识、语言标识、标识符
+ */
+const IDENTIFIER_CASES: [string, string, string, string | undefined][] = [
+	['user list', 'camelCase', 'typescript', 'userList'],
+	["The user's list.", 'camelCase', 'typescript', 'usersList'],
+	['404 page', 'camelCase', 'typescript', '_404Page'],
+	['default', 'camelCase', 'typescript', 'default_'],
+	['class', 'snake_case', 'python', 'class_'],
+	['default', 'camelCase', 'csharp', '@default'],
+	['default', 'kebab-case', 'typescript', 'default'],
+	['用户', 'camelCase', 'typescript', undefined],
+	['用户 list', 'camelCase', 'typescript', 'list'],
+	['！？。', 'CONSTANT_CASE', 'typescript', undefined],
+	['', 'PascalCase', 'typescript', undefined],
+	['用户', 'lowerWords', 'typescript', '用户']
+];
+
+suite('Identifier Sanitizer Test Suite', () => {
+	suite('toIdentifier', () => {
+		for (const [text, formatId, languageId, identifier] of IDENTIFIER_CASES) {
+			test(`${JSON.stringify(text)} → ${formatId} (${languageId})`, () => {
+				assert.strictEqual(toIdentifier(text, format(formatId), languageId), identifier);
+			});
+		}
+	});
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+
+import { detectScriptLanguage } from '../language-detection';
+
+/**
+ * 语言识别结果：选中的文本、识别出的语言
+ */
+const DETECTION_CASES: [string, string | undefined][] = [
+	['用户列表', 'zh'],
+	['获取userName', 'zh'],
+	['userName获取', 'zh'],
+	['获取 user name', 'zh'],
+	['根据id查询user信息', 'zh'],
+	['获user', 'zh'],
+	['get user name 用户', 'en'],
+	['Returns the user list', 'en'],
+	['userName', 'en'],
+	['ユーザー一覧', 'ja'],
+	['一覧を取得getUser', 'ja'],
+	['사용자 목록', 'ko'],
+	['사용자userName', 'ko'],
+	['Список пользователей', 'ru'],
+	['получить userName', 'ru'],
+	['รายการผู้ใช้', 'th'],
+	['123 + 456', undefined],
+	['', undefined]
+];
+
+suite('Language Detection Test Suite', () => {
+	suite('detectScriptLanguage', () => {
+		for (const [text, language] of DETECTION_CASES) {
+			test(JSON.stringify(text), () => {
+				assert.strictEqual(detectScriptLanguage(text), language);
+			});
+		}
+	});
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+
+import { normalizeLanguage } from '../languages';
+import { parseMemory, serializeMemory } from '../memory-format';
+
+/**
+ * 语言标签转换结果：语言标签、规范语言代码
+ */
+const LANGUAGE_CASES: [string, string][] = [
+	['zh', 'zh'],
+	['zh-CN', 'zh'],
+	['zh_CN', 'zh'],
+	['zh-Hans-CN', 'zh'],
+	['zh-TW', 'zh-TW'],
+	['zh-tw', 'zh-TW'],
+	['zh-HK', 'zh-TW'],
+	['zh-Hant', 'zh-TW'],
+	['en-US', 'en'],
+	['EN-GB', 'en'],
+	['pt-BR', 'pt'],
+	['ja-JP', 'ja'],
+	['auto', 'auto'],
+	['xx-YY', 'xx-YY']
+];
+
+suite('Memory Format Test Suite', () => {
+	suite('normalizeLanguage', () => {
+		for (const [tag, code] of LANGUAGE_CASES) {
+			test(tag, () => {
+				assert.strictEqual(normalizeLanguage(tag), code);
+			});
+		}
+	});
+
+	test('TMX language tags from CAT tools are mapped to canonical codes', () => {
+		const content = [
+			'<?xml version="1.0" encoding="UTF-8"?>',
+			'<tmx version="1.4">',
+			'  <header srclang="zh-CN" segtype="sentence" datatype="plaintext"/>',
+			'  <body>',
+			'    <tu>',
+			'      <tuv xml:lang="en-US"><seg>order</seg></tuv>',
+			'      <tuv xml:lang="zh-CN"><seg>订单</seg></tuv>',
+			'      <tuv xml:lang="zh-HK"><seg>訂單</seg></tuv>',
+			'    </tu>',
+			'  </body>',
+			'</tmx>'
+		].join('\n');
+
+		assert.deepStrictEqual(parseMemory(content, 'tmx'), [
+			{ source: '订单', target: 'order', from: 'zh', to: 'en' },
+			{ source: '订单', target: '訂單', from: 'zh', to: 'zh-TW' }
+		]);
+	});
+
+	test('JSON language tags are mapped to canonical codes', () => {
+		const content = JSON.stringify({
+			entries: [
+				{ source: '订单', target: 'order', from: 'zh-CN', to: 'en-US' },
+				{ source: 'order', target: '訂單', from: 'en', to: 'zh_HK', override: true }
+			]
+		});
+
+		assert.deepStrictEqual(parseMemory(content, 'json'), [
+			{ source: '订单', target: 'order', from: 'zh', to: 'en' },
+			{ source: 'order', target: '訂單', from: 'en', to: 'zh-TW', override: true }
+		]);
+	});
+
+	test('exported TMX keeps canonical codes', () => {
+		const entries = [{ source: '订单', target: '訂單', from: 'zh', to: 'zh-TW', provider: 'baidu' }];
+		assert.deepStrictEqual(parseMemory(serializeMemory(entries, 'tmx'), 'tmx'), entries);
+	});
+});
@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+
+import { isOnlyTokens, TextMasker } from '../text-masking';
+
+/**
+ * 占位符遮蔽结果：原文、遮蔽后的文本、被遮蔽的片段
+ */
+const MASK_CASES: [string, string, string[]][] = [
+	['共{0}条', '共__ULI0__条', ['{0}']],
+	['%s个文件', '__ULI0__个文件', ['%s']],
+	['%1$s和%(name)s，%.2f元', '__ULI0__和__ULI1__，__ULI2__元', ['%1$s', '%(name)s', '%.2f']],
+	['你好，${name}', '你好，__ULI0__', ['${name}']],
+	['{{ count }}项', '__ULI0__项', ['{{ count }}']],
+	['{count, plural, one {# 条} other {# 条}}', '__ULI0__', ['{count, plural, one {# 条} other {# 条}}']],
+	['<b>粗体</b>和<br/>', '__ULI0__粗体__ULI1__和__ULI2__', ['<b>', '</b>', '<br/>']],
+	['<a href="x">{0}</a>', '__ULI0____ULI2____ULI1__', ['<a href="x">', '</a>', '{0}']],
+	['运行`npm install`', '运行__ULI0__', ['`npm install`']],
+	['在`${dir}`中{0}', '在__ULI0__中__ULI1__', ['`${dir}`', '{0}']],
+	['100%完成', '100%完成', []],
+	['没有占位符', '没有占位符', []]
+];
+
+/**
+ * 翻译API改写占位标记后的还原结果：原文、翻译API返回的文本、还原后的文本、丢失的片段
+ */
+const UNMASK_CASES: [string, string, string, string[]][] = [
+	['共{0}条', 'Total __ULI0__ items', 'Total {0} items', []],
+	['共{0}条', 'Total __ uli 0 __ items', 'Total {0} items', []],
+	['共{0}条', 'Total __Uli0__ items', 'Total {0} items', []],
+	['共{0}条', 'Total _uli_0_ items', 'Total {0} items', []],
+	['共{0}条', 'Total __ULI 0__ items', 'Total {0} items', []],
+	['共{0}条', '__ULI0__ items, __ULI0__ total', '{0} items, {0} total', []],
+	['共{0}条', 'Total items', 'Total items', ['{0}']],
+	['共{0}条', 'Total ULI0 items', 'Total ULI0 items', ['{0}']],
+	['{0}和{1}', '__ULI1__ and __ULI0__', '{1} and {0}', []],
+	['{0}和{1}', '__ULI0__ and', '{0} and', ['{1}']],
+	['{0}条', '__ULI0__ of __ULI7__', '{0} of __ULI7__', []]
+];
+
+suite('Text Masking Test Suite', () => {
+	suite('maskPlaceholders', () => {
+		for (const [input, masked, originals] of MASK_CASES) {
+			test(JSON.stringify(input), () => {
+				const masker = new TextMasker();
+				assert.strictEqual(masker.maskPlaceholders(input), masked);
+				assert.deepStrictEqual(masker.getSegments().map(segment => segment.original), originals);
+				assert.ok(masker.getSegments().every(segment => segment.kind === 'placeholder'));
+			});
+		}
+	});
+
+	suite('round-trip', () => {
+		for (const [input] of MASK_CASES) {
+			test(JSON.stringify(input), () => {
+				const masker = new TextMasker();
+				assert.deepStrictEqual(masker.unmask(masker.maskPlaceholders(input)), { text: input, missing: [] });
+			});
+		}
+	});
+
+	suite('unmask rewritten tokens', () => {
+		for (const [input, response, expected, missing] of UNMASK_CASES) {
+			test(`${JSON.stringify(input)} → ${JSON.stringify(response)}`, () => {
+				const masker = new TextMasker();
+				masker.maskPlaceholders(input);
+				const result = masker.unmask(response);
+				assert.strictEqual(result.text, expected);
+				assert.deepStrictEqual(result.missing.map(segment => segment.original), missing);
+			});
+		}
+	});
+
+	suite('terms', () => {
+		test('terms are replaced by their target text', () => {
+			const masker = new TextMasker();
+			const masked = masker.mask('查询订单{0}', /订单/g, () => 'order');
+			assert.strictEqual(masked, '查询__ULI0__{0}');
+			assert.deepStrictEqual(masker.unmask('query __ULI0__{0}'), { text: 'query order{0}', missing: [] });
+		});
+
+		test('matches without a replacement are not masked', () => {
+			const masker = new TextMasker();
+			assert.strictEqual(masker.mask('订单和用户', /订单|用户/g, match => match === '订单' ? 'order' : undefined), '__ULI0__和用户');
+			assert.strictEqual(masker.getSegments().length, 1);
+		});
+
+		test('lost terms are reported with their kind', () => {
+			const masker = new TextMasker();
+			masker.mask(masker.maskPlaceholders('订单{0}'), /订单/g, () => 'order');
+			const result = masker.unmask('the __ULI0__');
+			assert.deepStrictEqual(result.missing.map(segment => [segment.original, segment.kind]), [['订单', 'term']]);
+		});
+	});
+
+	suite('replacements containing tokens', () => {
+		test('a replacement referring to an earlier token is restored in a later round', () => {
+			const masker = new TextMasker();
+			const masked = masker.mask(masker.maskPlaceholders('{0}订单'), /__ULI0__订单/g, () => 'order __ULI0__');
+			assert.strictEqual(masked, '__ULI1__');
+			assert.deepStrictEqual(masker.unmask(`the ${masked}`), { text: 'the order {0}', missing: [] });
+		});
+
+		test('a replacement referring to a later token is restored', () => {
+			const masker = new TextMasker();
+			const masked = masker.maskPlaceholders(masker.mask('订单{0}', /订单/g, () => '__ULI1__ order'));
+			assert.strictEqual(masked, '__ULI0____ULI1__');
+			assert.deepStrictEqual(masker.unmask(masked), { text: '{0} order{0}', missing: [] });
+		});
+
+		test('a replacement referring to itself does not loop forever', () => {
+			const masker = new TextMasker();
+			masker.mask('x', /x/g, () => '__ULI0__');
+			assert.deepStrictEqual(masker.unmask('__ULI0__'), { text: '__ULI0__', missing: [] });
+		});
+
+		test('a replacement referring to an unknown token is kept as is', () => {
+			const masker = new TextMasker();
+			masker.mask('订单', /订单/g, () => 'order __ULI9__');
+			assert.deepStrictEqual(masker.unmask('__ULI0__'), { text: 'order __ULI9__', missing: [] });
+		});
+	});
+
+	test('isOnlyTokens', () => {
+		assert.strictEqual(isOnlyTokens('__ULI0__ __ULI1__'), true);
+		assert.strictEqual(isOnlyTokens('  __ULI0__\n'), true);
+		assert.strictEqual(isOnlyTokens('__ULI0__条'), false);
+		assert.strictEqual(isOnlyTokens(''), true);
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { TranslationCache } from '../translation-cache';
+
+suite('Translation Cache Test Suite', () => {
+	let directory: string;
+	let context: vscode.ExtensionContext;
+
+	setup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'uli-translation-cache-'));
+		// 缓存只使用全局存储目录和全局状态
+		context = {
+			globalStorageUri: vscode.Uri.file(directory),
+			globalState: { get: () => undefined, update: () => Promise.resolve() }
+		} as unknown as vscode.ExtensionContext;
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('clearing keeps overrides in the compacted journal', () => {
+		const cache = new TranslationCache(context);
+		cache.set('订单', 'order form', 'zh', 'en', 'baidu');
+		cache.set('用户', 'user', 'zh', 'en', 'baidu');
+		cache.override(cache.get('订单', 'zh', 'en')!, 'order');
+		cache.set('用户', 'customer', 'zh', 'en', 'tencent');
+
+		assert.strictEqual(cache.clear(), 1);
+		cache.flush();
+
+		const journal = fs.readFileSync(path.join(directory, 'translation-cache.jsonl'), 'utf8').trim().split('\n');
+		assert.strictEqual(journal.length, 1);
+
+		const reloaded = new TranslationCache(context);
+		assert.deepStrictEqual(
+			reloaded.getEntries().map(entry => [entry.text, entry.result, entry.override]),
+			[['订单', 'order', true]]
+		);
+	});
+
+	test('clearing a provider compacts its entries away and keeps the others', () => {
+		const cache = new TranslationCache(context);
+		cache.set('用户', 'user', 'zh', 'en', 'baidu');
+		cache.set('用户', 'customer', 'zh', 'en', 'tencent');
+		cache.clear('baidu');
+		cache.flush();
+
+		const reloaded = new TranslationCache(context);
+		assert.deepStrictEqual(reloaded.getEntries().map(entry => entry.provider), ['tencent']);
+	});
+});
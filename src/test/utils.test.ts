@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+
+import {
+	splitWords,
+	toCamelCase,
+	toConstantCase,
+	toDotCase,
+	toFlatCase,
+	toKebabCase,
+	toLowerWords,
+	toPascalCase,
+	toPathCase,
+	toScreamingKebabCase,
+	toSnakeCase,
+	toTitleWords,
+	toTrainCase,
+	toUpperKebabCase
+} from '../utils';
+
+/**
+ * 使用默认缩写词（ID、URL、HTTP、API）时的分词结果
+ */
+const SPLIT_CASES: [string, string[]][] = [
+	['', []],
+	['hello world', ['hello', 'world']],
+	['  hello   world  ', ['hello', 'world']],
+	['helloWorld', ['hello', 'World']],
+	['HelloWorld', ['Hello', 'World']],
+	['hello_world-foo.bar/baz', ['hello', 'world', 'foo', 'bar', 'baz']],
+	['CONSTANT_NAME', ['CONSTANT', 'NAME']],
+	['XMLHttpRequest', ['XML', 'Http', 'Request']],
+	['XMLHTTPRequest', ['XML', 'HTTP', 'Request']],
+	['getURLsFromServer', ['get', 'URLs', 'From', 'Server']],
+	['userIDs', ['user', 'IDs']],
+	['IDS', ['IDS']],
+	['ABook', ['A', 'Book']],
+	['Base64Encode', ['Base64', 'Encode']],
+	['html5Parser', ['html5', 'Parser']],
+	['version 2', ['version', '2']],
+	['2nd place', ['2nd', 'place']],
+	['3DModel', ['3D', 'Model']],
+	["user's list", ['users', 'list']],
+	['café résumé', ['cafe', 'resume']],
+	['ＡＢＣ　ｄｅｆ１２', ['ABC', 'def12']],
+	['Привет Мир', ['Привет', 'Мир']],
+	['hello, world!', ['hello', 'world']]
+];
+
+/**
+ * 测试的命名格式
+ */
+const FORMAT_COLUMNS: [string, (text: string) => string][] = [
+	['camelCase', toCamelCase],
+	['PascalCase', toPascalCase],
+	['snake_case', toSnakeCase],
+	['kebab-case', toKebabCase],
+	['Train-Case', toTrainCase],
+	['SCREAMING-KEBAB-CASE', toScreamingKebabCase],
+	['lower words', toLowerWords],
+	['Title Words', toTitleWords],
+	['CONSTANT_CASE', toConstantCase],
+	['flatcase', toFlatCase],
+	['dot.case', toDotCase],
+	['path/case', toPathCase]
+];
+
+/**
+ * 各命名格式的转换结果，顺序与FORMAT_COLUMNS一致
+ */
+const FORMAT_CASES: [string, string[]][] = [
+	['hello world', [
+		'helloWorld', 'HelloWorld', 'hello_world', 'hello-world', 'Hello-World', 'HELLO-WORLD',
+		'hello world', 'Hello World', 'HELLO_WORLD', 'helloworld', 'hello.world', 'hello/world'
+	]],
+	['XMLHttpRequest', [
+		'xmlHTTPRequest', 'XmlHTTPRequest', 'xml_http_request', 'xml-http-request', 'Xml-HTTP-Request', 'XML-HTTP-REQUEST',
+		'xml http request', 'Xml HTTP Request', 'XML_HTTP_REQUEST', 'xmlhttprequest', 'xml.http.request', 'xml/http/request'
+	]],
+	['user id', [
+		'userID', 'UserID', 'user_id', 'user-id', 'User-ID', 'USER-ID',
+		'user id', 'User ID', 'USER_ID', 'userid', 'user.id', 'user/id'
+	]],
+	['api urls', [
+		'apiURLs', 'APIURLs', 'api_urls', 'api-urls', 'API-URLs', 'API-URLS',
+		'api urls', 'API URLs', 'API_URLS', 'apiurls', 'api.urls', 'api/urls'
+	]],
+	['base64 encode v2', [
+		'base64EncodeV2', 'Base64EncodeV2', 'base64_encode_v2', 'base64-encode-v2', 'Base64-Encode-V2', 'BASE64-ENCODE-V2',
+		'base64 encode v2', 'Base64 Encode V2', 'BASE64_ENCODE_V2', 'base64encodev2', 'base64.encode.v2', 'base64/encode/v2'
+	]],
+	['café_menu', [
+		'cafeMenu', 'CafeMenu', 'cafe_menu', 'cafe-menu', 'Cafe-Menu', 'CAFE-MENU',
+		'cafe menu', 'Cafe Menu', 'CAFE_MENU', 'cafemenu', 'cafe.menu', 'cafe/menu'
+	]],
+	['', ['', '', '', '', '', '', '', '', '', '', '', '']]
+];
+
+suite('Utils Test Suite', () => {
+	suite('splitWords', () => {
+		for (const [input, expected] of SPLIT_CASES) {
+			test(JSON.stringify(input), () => {
+				assert.deepStrictEqual(splitWords(input), expected);
+			});
+		}
+
+		test('custom acronyms', () => {
+			assert.deepStrictEqual(splitWords('JSONXMLParser', { acronyms: ['json', 'xml'] }), ['JSON', 'XML', 'Parser']);
+			assert.deepStrictEqual(splitWords('JSONXMLParser', { acronyms: [] }), ['JSONXML', 'Parser']);
+		});
+	});
+
+	suite('naming formats', () => {
+		for (const [input, expected] of FORMAT_CASES) {
+			FORMAT_COLUMNS.forEach(([name, convert], index) => {
+				test(`${name}: ${JSON.stringify(input)}`, () => {
+					assert.strictEqual(convert(input), expected[index]);
+				});
+			});
+		}
+
+		test('acronyms can be disabled', () => {
+			assert.strictEqual(toCamelCase('user id', { acronyms: [] }), 'userId');
+			assert.strictEqual(toPascalCase('http api', { acronyms: [] }), 'HttpApi');
+		});
+
+		test('toUpperKebabCase is Train-Case', () => {
+			assert.strictEqual(toUpperKebabCase('content type'), toTrainCase('content type'));
+		});
+	});
+});
@@ -0,0 +1,158 @@
+/**
+ * 文本遮蔽模块
+ *
+ * 该模块在请求翻译API前将不应被翻译的片段替换为不透明的占位标记，
+ * 翻译完成后再将占位标记替换回指定的文本，用于术语表等需要固定译文的场景，
+ * 以及保护ICU/Vue/printf/模板字符串占位符、HTML标签和行内代码不被翻译API破坏
+ *
+ * @author uli
+ * @version 1.1.0
+ */
+
+/**
+ * 被遮蔽片段的类型
+ * placeholder表示占位符、标签等需要原样保留的片段，term表示需要替换为规定译文的术语
+ */
+export type MaskedSegmentKind = 'placeholder' | 'term';
+
+/**
+ * 被遮蔽的文本片段
+ *
+ * @property token - 替换原文片段的占位标记
+ * @property original - 原文片段
+ * @property replacement - 翻译完成后替换占位标记的文本
+ * @property kind - 片段类型
+ */
+export interface MaskedSegment {
+  token: string;
+  original: string;
+  replacement: string;
+  kind: MaskedSegmentKind;
+}
+
+/**
+ * 还原结果
+ *
+ * @property text - 还原后的文本
+ * @property missing - 翻译结果中丢失了占位标记的片段
+ */
+export interface UnmaskResult {
+  text: string;
+  missing: MaskedSegment[];
+}
+
+/**
+ * 占位标记的匹配模式
+ * 翻译API可能在标记内插入空格或改变大小写，匹配时予以容忍
+ */
+const TOKEN_PATTERN = /_{1,2}\s*uli\s*_?\s*(\d+)\s*_{1,2}/gi;
+
+/**
+ * 需要原样保留的占位符和标记，按遮蔽顺序排列
+ * 先遮蔽的片段中的内容不会再被后面的模式匹配
+ */
+const PLACEHOLDER_PATTERNS: RegExp[] = [
+  // 行内代码，如`npm install`
+  /`[^`\n]+`/g,
+  // HTML/XML标签，如<b>、</b>、<br/>、<a href="...">
+  /<\/?[A-Za-z][\w:-]*(?:\s[^<>]*)?\/?>/g,
+  // 模板字符串插值、Vue插值和ICU占位符，支持两层嵌套，如${name}、{{ count }}、{count, plural, one {# 条} other {# 条}}
+  /\$?\{(?:[^{}]|\{(?:[^{}]|\{[^{}]*\})*\})*\}/g,
+  // printf风格占位符，如%s、%d、%1$s、%.2f、%(name)s、%@
+  /%(?:\d+\$)?(?:\([A-Za-z_]\w*\))?[-+0#]*(?:\d+|\*)?(?:\.(?:\d+|\*))?(?:hh|h|ll|l|L|z|j|t)?[diouxXeEfFgGaAcsp@%]/g
+];
+
+/**
+ * 检查文本是否只由占位标记和空白组成
+ * @param text 遮蔽后的文本
+ * @returns 是否只由占位标记和空白组成
+ */
+export function isOnlyTokens(text: string): boolean {
+  return !text.replace(TOKEN_PATTERN, '').trim();
+}
+
+/**
+ * 文本遮蔽类
+ * 同一次翻译的所有遮蔽操作共用一个实例，占位标记按遮蔽顺序编号
+ */
+export class TextMasker {
+  // 已遮蔽的文本片段，下标即占位标记的编号
+  private segments: MaskedSegment[] = [];
+
+  /**
+   * 遮蔽文本中匹配的片段
+   *
+   * @param text 要遮蔽的文本
+   * @param pattern 匹配要遮蔽片段的正则表达式，必须带有g标志
+   * @param replacementFor 根据匹配的片段返回翻译后要替换成的文本，返回undefined时不遮蔽该片段
+   * @param kind 片段类型，默认为term
+   * @returns 遮蔽后的文本
+   */
+  public mask(
+    text: string,
+    pattern: RegExp,
+    replacementFor: (match: string) => string | undefined,
+    kind: MaskedSegmentKind = 'term'
+  ): string {
+    return text.replace(pattern, match => {
+      const replacement = replacementFor(match);
+      if (replacement === undefined) {
+        return match;
+      }
+      const token = `__ULI${this.segments.length}__`;
+      this.segments.push({ token, original: match, replacement, kind });
+      return token;
+    });
+  }
+
+  /**
+   * 遮蔽占位符、HTML标签和行内代码，翻译后原样还原
+   * @param text 要遮蔽的文本
+   * @returns 遮蔽后的文本
+   */
+  public maskPlaceholders(text: string): string {
+    return PLACEHOLDER_PATTERNS.reduce(
+      (result, pattern) => this.mask(result, pattern, match => match, 'placeholder'),
+      text
+    );
+  }
+
+  /**
+   * 获取已遮蔽的文本片段
+   * @returns 文本片段列表
+   */
+  public getSegments(): readonly MaskedSegment[] {
+    return this.segments;
+  }
+
+  /**
+   * 将翻译结果中的占位标记还原为指定的文本
+   * 后遮蔽的片段可能包含先遮蔽的占位标记，因此循环还原直到没有可还原的标记
+   *
+   * @param text 翻译结果
+   * @returns 还原结果
+   */
+  public unmask(text: string): UnmaskResult {
+    const restored = new Set<number>();
+    let result = text;
+    let previous: string;
+    // 限制还原轮数，避免替换文本本身含有占位标记时无限循环
+    let rounds = 0;
+    do {
+      previous = result;
+      result = result.replace(TOKEN_PATTERN, (match, index: string) => {
+        const segment = this.segments[Number(index)];
+        if (!segment) {
+          return match;
+        }
+        restored.add(Number(index));
+        return segment.replacement;
+      });
+    } while (result !== previous && ++rounds <= this.segments.length);
+
+    return {
+      text: result,
+      missing: this.segments.filter((_, index) => !restored.has(index))
+    };
+  }
+}
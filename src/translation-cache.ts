@@ -3,22 +3,104 @@
  * 
  * 该模块提供翻译结果的缓存功能，减少重复翻译请求，提高响应速度
  * 缓存会在指定的过期时间后自动失效（默认为3天）
+ * 所有翻译器共用同一个缓存实例，缓存项按翻译器、原文和语言对区分，
+ * 查找时既可以限定翻译器，也可以接受任意翻译器的结果
+ * 缓存以追加写入的日志文件保存在globalStorageUri目录下，每次翻译只追加一条记录
+ * 缓存超出大小限制时按配置的淘汰策略（LRU或LFU）淘汰缓存项
+ * 用户手动修正的翻译作为覆盖项保存，永不过期也不会被淘汰
+ * 支持批量导入翻译记忆，导入时可以合并或替换现有缓存
  * 
  * @author uli
- * @version 1.0.0
+ * @version 1.6.0
  */
 
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { CacheStore } from './cache-store';
+import { createEvictionPolicy, EvictionPolicy } from './eviction-policy';
 
 /**
  * 缓存项接口
  * 定义缓存中存储的数据结构
  */
 interface CacheItem {
+  text: string;         // 原文
   result: string;       // 翻译结果
   timestamp: number;    // 缓存创建时间戳
   from: string;         // 源语言
   to: string;           // 目标语言
+  provider: string;     // 给出翻译结果的翻译器标识
+  override?: boolean;   // 是否为用户手动修正的翻译，手动修正的翻译永不过期也不会被淘汰
+}
+
+/**
+ * 缓存条目
+ * 对外暴露的只读缓存项
+ */
+export type CacheEntry = Readonly<CacheItem>;
+
+/**
+ * 导入缓存时的缓存项
+ * 不含缓存时间，导入的缓存项以导入时间作为缓存时间
+ */
+export type CacheImportItem = Omit<CacheItem, 'timestamp'>;
+
+/**
+ * 导入冲突处理方式
+ * keepLocal表示保留本地缓存，useImported表示使用导入的翻译
+ */
+export type CacheImportConflictPolicy = 'keepLocal' | 'useImported';
+
+/**
+ * 缓存导入结果
+ *
+ * @property added - 新增的缓存项数量
+ * @property updated - 因冲突而被导入翻译覆盖的缓存项数量
+ * @property skipped - 与本地缓存相同或因冲突而保留本地缓存的数量
+ */
+export interface CacheImportResult {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+/**
+ * 缓存查找选项
+ *
+ * @property provider - 限定翻译器，为空时接受任意翻译器的结果
+ * @property requester - 发起查找的翻译器，用于统计该翻译器的命中率
+ */
+export interface CacheLookupOptions {
+  provider?: string;
+  requester?: string;
+}
+
+/**
+ * 缓存性能统计
+ */
+interface CacheStats {
+  hits: number;              // 命中次数
+  misses: number;            // 未命中次数
+  crossProviderHits: number; // 使用其他翻译器结果的命中次数
+  totalResponseTime: number; // 命中时的累计响应时间
+  responses: number;         // 命中时的响应次数
+}
+
+/**
+ * 缓存性能指标
+ *
+ * @property hitRate - 命中率（百分比）
+ * @property avgResponseTime - 平均响应时间（毫秒）
+ * @property size - 缓存大小（字节）
+ * @property entries - 缓存项数量
+ * @property crossProviderHits - 使用其他翻译器结果的命中次数
+ */
+export interface TranslationCacheMetrics {
+  hitRate: number;
+  avgResponseTime: number;
+  size: number;
+  entries: number;
+  crossProviderHits: number;
 }
 
 /**
@@ -26,95 +108,170 @@ interface CacheItem {
  * 提供翻译结果的缓存管理功能
  */
 export class TranslationCache {
-  // 缓存数据，键为原文+源语言+目标语言的组合，值为缓存项
+  // 缓存数据，键为翻译器+原文+源语言+目标语言的组合，值为缓存项
   private cache: Map<string, CacheItem>;
+  // 按原文+源语言+目标语言索引已缓存该翻译的翻译器，用于不限定翻译器的查找
+  private providerIndex: Map<string, Set<string>> = new Map<string, Set<string>>();
   // 缓存过期时间（毫秒），默认为3天
   private expirationTime: number;
   // 扩展上下文，用于持久化存储
   private context: vscode.ExtensionContext;
-  // 缓存存储键
-  private readonly CACHE_KEY = 'uliTranslation.cache';
+  // 缓存日志文件存储
+  private store: CacheStore<CacheItem>;
+  // 缓存日志文件名
+  private readonly CACHE_FILE = 'translation-cache.jsonl';
+  // 旧版保存在globalState中的缓存存储键，加载时迁移到日志文件
+  private readonly GLOBAL_STATE_CACHE_KEY = 'uliTranslation.cache.v2';
+  // 旧版缓存存储键，旧版缓存不区分翻译器，加载时丢弃
+  private readonly LEGACY_CACHE_KEY = 'uliTranslation.cache';
+  // 日志文件压缩的最小大小（字节），日志文件小于该值时不进行压缩
+  private readonly COMPACT_MIN_SIZE = 1024 * 1024;
   // 缓存大小限制（字节），默认为20MB以确保快速响应
   private maxCacheSize: number;
   // 当前缓存大小（字节）
   private currentCacheSize: number = 0;
-  // 性能监控
-  private metrics = {
-    hits: 0,
-    misses: 0,
-    totalResponseTime: 0,
-    responses: 0
-  };
-  // 上次保存缓存的时间戳
-  private lastSaveTime: number = Date.now();
+  // 各缓存项序列化后的大小（字节）
+  private itemSizes: Map<string, number> = new Map<string, number>();
+  // 缓存淘汰策略
+  private evictionPolicy: EvictionPolicy;
+  // 各翻译器的缓存大小（字节）
+  private providerSizes: Map<string, number> = new Map<string, number>();
+  // 各翻译器的缓存项数量
+  private providerCounts: Map<string, number> = new Map<string, number>();
+  // 性能监控，键为发起查找的翻译器标识
+  private metrics: Map<string, CacheStats> = new Map<string, CacheStats>();
+  // 缓存内容变化事件
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  /**
+   * 缓存内容变化事件
+   * 写入、删除、修正或清空缓存项时触发
+   */
+  public readonly onDidChange: vscode.Event<void> = this.changeEmitter.event;
 
   /**
    * 构造函数
    * @param context 扩展上下文，用于持久化存储
    * @param expirationDays 缓存过期天数，默认为3天
-   * @param maxCacheSizeMB 缓存大小限制（MB），默认为50MB
+   * @param maxCacheSizeMB 缓存大小限制（MB），默认为20MB
+   * @param evictionPolicy 缓存淘汰策略，lru或lfu，默认为lru
    */
-  constructor(context: vscode.ExtensionContext, expirationDays: number = 3, maxCacheSizeMB: number = 20) {
+  constructor(
+    context: vscode.ExtensionContext,
+    expirationDays: number = 3,
+    maxCacheSizeMB: number = 20,
+    evictionPolicy: string = 'lru'
+  ) {
     this.context = context;
     this.expirationTime = expirationDays * 24 * 60 * 60 * 1000; // 转换为毫秒
     this.maxCacheSize = maxCacheSizeMB * 1024 * 1024; // 转换为字节
+    this.evictionPolicy = createEvictionPolicy(evictionPolicy);
     this.cache = new Map<string, CacheItem>();
+    this.store = new CacheStore<CacheItem>(path.join(context.globalStorageUri.fsPath, this.CACHE_FILE));
     
+    // 丢弃旧版不区分翻译器的缓存，避免将一个翻译器的结果当作另一个翻译器的结果
+    if (this.context.globalState.get(this.LEGACY_CACHE_KEY) !== undefined) {
+      this.context.globalState.update(this.LEGACY_CACHE_KEY, undefined);
+      console.log('已丢弃旧版不区分翻译器的翻译缓存');
+    }
+
     // 从存储中加载缓存
     this.loadCache();
     
     // 清理过期缓存
     this.cleanExpiredCache();
     
-    console.log(`翻译缓存已初始化，过期时间: ${expirationDays}天，缓存大小限制: ${maxCacheSizeMB}MB`);
+    console.log(`翻译缓存已初始化，过期时间: ${expirationDays}天，缓存大小限制: ${maxCacheSizeMB}MB，淘汰策略: ${this.evictionPolicy.description}`);
+  }
+
+  /**
+   * 更新缓存设置
+   * 缩短过期时间或减小大小限制时会立即清理超出限制的缓存项，
+   * 切换淘汰策略时按当前的缓存顺序重建策略
+   *
+   * @param expirationDays 缓存过期天数
+   * @param maxCacheSizeMB 缓存大小限制（MB）
+   * @param evictionPolicy 缓存淘汰策略，lru或lfu
+   */
+  public configure(expirationDays: number, maxCacheSizeMB: number, evictionPolicy: string = 'lru'): void {
+    this.expirationTime = expirationDays * 24 * 60 * 60 * 1000;
+    this.maxCacheSize = maxCacheSizeMB * 1024 * 1024;
+    if (evictionPolicy !== this.evictionPolicy.name) {
+      this.evictionPolicy = createEvictionPolicy(evictionPolicy);
+      this.cache.forEach((item, key) => {
+        if (!item.override) {
+          this.evictionPolicy.add(key);
+        }
+      });
+    }
+    this.cleanExpiredCache();
+    this.checkAndCleanCacheSize();
   }
 
   /**
    * 从存储中加载缓存
+   * 日志文件不存在时，从旧版globalState中迁移缓存
    */
   private loadCache(): void {
     try {
-      const cachedData = this.context.globalState.get<{ [key: string]: CacheItem }>(this.CACHE_KEY);
-      if (cachedData) {
-        // 将对象转换为Map并计算缓存大小
-        this.currentCacheSize = 0;
-        Object.keys(cachedData).forEach(key => {
-          this.cache.set(key, cachedData[key]);
-          this.currentCacheSize += this.calculateItemSize(key, cachedData[key]);
-        });
-        console.log(`已加载${this.cache.size}条翻译缓存，当前缓存大小：${this.formatSize(this.currentCacheSize)}`);
+      if (!this.store.exists()) {
+        this.migrateFromGlobalState();
+        return;
+      }
+
+      // 回放日志文件并计算缓存大小
+      const { entries, corruptLines } = this.store.load();
+      entries.forEach((item, key) => {
+        this.addItem(key, item, false);
+      });
+      if (corruptLines > 0) {
+        vscode.window.showWarningMessage(`翻译缓存文件已损坏，已恢复${this.cache.size}条翻译缓存`);
       }
+      console.log(`已加载${this.cache.size}条翻译缓存，当前缓存大小：${this.formatSize(this.currentCacheSize)}`);
     } catch (error) {
       console.error('加载翻译缓存失败:', error);
       // 如果加载失败，使用空缓存
-      this.cache = new Map<string, CacheItem>();
+      this.resetItems();
     }
   }
 
   /**
-   * 将缓存保存到存储中
+   * 将旧版保存在globalState中的缓存迁移到日志文件
    */
-  private saveCache(): void {
-    const now = Date.now();
-    // 限制保存频率，至少间隔1秒
-    if (now - this.lastSaveTime < 1000) {
+  private migrateFromGlobalState(): void {
+    const cachedData = this.context.globalState.get<{ [key: string]: CacheItem }>(this.GLOBAL_STATE_CACHE_KEY);
+    if (!cachedData) {
       return;
     }
-    this.lastSaveTime = now;
-    try {
-      // 将Map转换为对象以便存储
-      const cacheObject: { [key: string]: CacheItem } = {};
-      this.cache.forEach((value, key) => {
-        cacheObject[key] = value;
-      });
-      
-      // 保存到扩展的全局状态
-      this.context.globalState.update(this.CACHE_KEY, cacheObject);
-    } catch (error) {
-      console.error('保存翻译缓存失败:', error);
+
+    Object.keys(cachedData).forEach(key => {
+      this.addItem(key, cachedData[key], false);
+    });
+    this.store.compact(this.cache.entries());
+    this.context.globalState.update(this.GLOBAL_STATE_CACHE_KEY, undefined);
+    console.log(`已将${this.cache.size}条翻译缓存迁移到缓存文件`);
+  }
+
+  /**
+   * 日志文件中的过期记录过多时，将当前缓存重写为快照
+   * 日志文件大小超过当前缓存大小的两倍且超过COMPACT_MIN_SIZE时触发
+   */
+  private compactIfNeeded(): void {
+    const journalSize = this.store.getJournalSize();
+    if (journalSize > this.COMPACT_MIN_SIZE && journalSize > this.currentCacheSize * 2) {
+      this.store.compact(this.cache.entries());
+      console.log(`翻译缓存文件已压缩，当前大小：${this.formatSize(this.store.getJournalSize())}`);
     }
   }
 
+  /**
+   * 立即将尚未写入的缓存记录写入文件
+   * 插件停用时调用，保证最后一批翻译结果不会丢失
+   */
+  public flush(): void {
+    this.store.flush();
+  }
+
   /**
    * 清理过期的缓存项
    */
@@ -124,89 +281,245 @@ export class TranslationCache {
     
     // 遍历缓存，删除过期项
     this.cache.forEach((item, key) => {
-      if (now - item.timestamp > this.expirationTime) {
-        this.cache.delete(key);
+      if (this.isExpired(item, now)) {
+        this.removeItem(key);
         expiredCount++;
       }
     });
     
     if (expiredCount > 0) {
       console.log(`已清理${expiredCount}条过期翻译缓存`);
-      // 保存更新后的缓存
-      this.saveCache();
+      this.compactIfNeeded();
+      this.changeEmitter.fire();
     }
   }
 
+  /**
+   * 检查缓存项是否过期
+   * 用户手动修正的翻译永不过期
+   *
+   * @param item 缓存项
+   * @param now 当前时间戳
+   * @returns 是否过期
+   */
+  private isExpired(item: CacheItem, now: number): boolean {
+    return !item.override && now - item.timestamp > this.expirationTime;
+  }
+
+  /**
+   * 生成不含翻译器的翻译键
+   * @param text 原文
+   * @param from 源语言
+   * @param to 目标语言
+   * @returns 翻译键
+   */
+  private generateTranslationKey(text: string, from: string, to: string): string {
+    return `${text}|${from}|${to}`;
+  }
+
   /**
    * 生成缓存键
+   * @param provider 翻译器标识
    * @param text 原文
    * @param from 源语言
    * @param to 目标语言
    * @returns 缓存键
    */
-  private generateKey(text: string, from: string, to: string): string {
-    return `${text}|${from}|${to}`;
+  private generateKey(provider: string, text: string, from: string, to: string): string {
+    return `${provider}|${this.generateTranslationKey(text, from, to)}`;
+  }
+
+  /**
+   * 获取指定翻译器的性能统计，不存在时创建
+   * @param provider 翻译器标识
+   * @returns 性能统计
+   */
+  private getStats(provider: string): CacheStats {
+    let stats = this.metrics.get(provider);
+    if (!stats) {
+      stats = { hits: 0, misses: 0, crossProviderHits: 0, totalResponseTime: 0, responses: 0 };
+      this.metrics.set(provider, stats);
+    }
+    return stats;
   }
 
   /**
    * 获取缓存的翻译结果
+   *
+   * 指定provider时只查找该翻译器的结果；未指定时接受任意翻译器的结果，
+   * 存在多个翻译器的结果时返回最新的一条；用户手动修正的翻译始终优先返回
+   *
    * @param text 原文
    * @param from 源语言
    * @param to 目标语言
-   * @returns 缓存的翻译结果，如果没有缓存或缓存已过期则返回null
+   * @param options 查找选项
+   * @returns 缓存条目，如果没有缓存或缓存已过期则返回null
    */
-  public get(text: string, from: string, to: string): string | null {
+  public get(text: string, from: string, to: string, options: CacheLookupOptions = {}): CacheEntry | null {
     const startTime = Date.now();
-    const key = this.generateKey(text, from, to);
-    const cachedItem = this.cache.get(key);
-    
+    const stats = this.getStats(options.requester ?? options.provider ?? '*');
+
+    // 确定候选的翻译器
+    const providers = Array.from(this.providerIndex.get(this.generateTranslationKey(text, from, to)) ?? []);
+
+    let cachedItem: CacheItem | undefined;
+    let expired = false;
+    for (const provider of providers) {
+      const key = this.generateKey(provider, text, from, to);
+      const item = this.cache.get(key);
+      if (!item) {
+        continue;
+      }
+      // 限定翻译器时只接受该翻译器的结果和用户手动修正的翻译
+      if (options.provider && provider !== options.provider && !item.override) {
+        continue;
+      }
+      // 检查缓存是否过期，过期的缓存项直接删除
+      if (this.isExpired(item, startTime)) {
+        this.removeItem(key);
+        expired = true;
+        continue;
+      }
+      if (!cachedItem || this.isPreferred(item, cachedItem)) {
+        cachedItem = item;
+      }
+    }
+
+    if (expired) {
+      this.compactIfNeeded();
+      this.changeEmitter.fire();
+    }
+
     // 如果没有缓存，返回null
     if (!cachedItem) {
-      this.metrics.misses++;
+      stats.misses++;
       return null;
     }
-    
-    // 检查缓存是否过期
-    const now = Date.now();
-    if (now - cachedItem.timestamp > this.expirationTime) {
-      // 缓存已过期，删除并返回null
-      this.cache.delete(key);
-      this.saveCache();
-      return null;
-    }
-    
+
+    // 记录访问，供淘汰策略使用
+    this.evictionPolicy.touch(this.generateKey(cachedItem.provider, text, from, to));
+
     // 更新性能指标
-    this.metrics.hits++;
-    this.metrics.totalResponseTime += Date.now() - startTime;
-    this.metrics.responses++;
-    
-    // 返回缓存的翻译结果
-    return cachedItem.result;
+    stats.hits++;
+    if (options.requester && cachedItem.provider !== options.requester) {
+      stats.crossProviderHits++;
+    }
+    stats.totalResponseTime += Date.now() - startTime;
+    stats.responses++;
+
+    // 返回缓存条目
+    return cachedItem;
   }
 
   /**
-   * 设置翻译结果缓存
-   * @param text 原文
-   * @param result 翻译结果
-   * @param from 源语言
-   * @param to 目标语言
+   * 比较同一翻译的两个缓存项
+   * 用户手动修正的翻译优先，其次是更新的缓存项
+   *
+   * @param item 候选缓存项
+   * @param current 当前选中的缓存项
+   * @returns 候选缓存项是否优于当前选中的缓存项
    */
+  private isPreferred(item: CacheItem, current: CacheItem): boolean {
+    if (!!item.override !== !!current.override) {
+      return !!item.override;
+    }
+    return item.timestamp > current.timestamp;
+  }
+
   /**
    * 计算缓存项的大小（字节）
+   * 以缓存项写入缓存文件时序列化后的实际字节数计算
+   *
    * @param key 缓存键
    * @param item 缓存项
    * @returns 缓存项大小（字节）
    */
   private calculateItemSize(key: string, item: CacheItem): number {
-    // 计算字符串占用的字节数（假设使用UTF-16编码，每个字符2字节）
-    const keySize = key.length * 2;
-    const resultSize = item.result.length * 2;
-    const fromSize = item.from.length * 2;
-    const toSize = item.to.length * 2;
-    // 时间戳为8字节（number类型）
-    const timestampSize = 8;
-    
-    return keySize + resultSize + fromSize + toSize + timestampSize;
+    return this.store.measure(key, item);
+  }
+
+  /**
+   * 添加缓存项并更新索引和大小统计
+   * @param key 缓存键
+   * @param item 缓存项
+   * @param persist 是否写入缓存文件，从文件加载时为false
+   */
+  private addItem(key: string, item: CacheItem, persist: boolean = true): void {
+    // 如果是更新现有缓存项，先移除原有缓存项，更新记录会覆盖原有记录，无需单独记录删除
+    if (this.cache.has(key)) {
+      this.removeItem(key, false);
+    }
+
+    const itemSize = this.calculateItemSize(key, item);
+    this.cache.set(key, item);
+    this.itemSizes.set(key, itemSize);
+    // 用户手动修正的翻译不参与淘汰
+    if (!item.override) {
+      this.evictionPolicy.add(key);
+    }
+    this.currentCacheSize += itemSize;
+    this.providerSizes.set(item.provider, (this.providerSizes.get(item.provider) ?? 0) + itemSize);
+    this.providerCounts.set(item.provider, (this.providerCounts.get(item.provider) ?? 0) + 1);
+
+    const translationKey = this.generateTranslationKey(item.text, item.from, item.to);
+    let providers = this.providerIndex.get(translationKey);
+    if (!providers) {
+      providers = new Set<string>();
+      this.providerIndex.set(translationKey, providers);
+    }
+    providers.add(item.provider);
+
+    if (persist) {
+      this.store.recordSet(key, item);
+    }
+  }
+
+  /**
+   * 删除缓存项并更新索引和大小统计
+   * @param key 缓存键
+   * @param persist 是否写入缓存文件
+   * @returns 被删除的缓存项，不存在时返回undefined
+   */
+  private removeItem(key: string, persist: boolean = true): CacheItem | undefined {
+    const item = this.cache.get(key);
+    if (!item) {
+      return undefined;
+    }
+
+    if (persist) {
+      this.store.recordDelete(key);
+    }
+
+    const itemSize = this.itemSizes.get(key) ?? 0;
+    this.cache.delete(key);
+    this.itemSizes.delete(key);
+    this.evictionPolicy.remove(key);
+    this.currentCacheSize -= itemSize;
+    this.providerSizes.set(item.provider, (this.providerSizes.get(item.provider) ?? 0) - itemSize);
+    this.providerCounts.set(item.provider, (this.providerCounts.get(item.provider) ?? 0) - 1);
+
+    const translationKey = this.generateTranslationKey(item.text, item.from, item.to);
+    const providers = this.providerIndex.get(translationKey);
+    if (providers) {
+      providers.delete(item.provider);
+      if (providers.size === 0) {
+        this.providerIndex.delete(translationKey);
+      }
+    }
+    return item;
+  }
+
+  /**
+   * 清空所有缓存项、索引和大小统计
+   */
+  private resetItems(): void {
+    this.cache = new Map<string, CacheItem>();
+    this.itemSizes.clear();
+    this.evictionPolicy.clear();
+    this.providerIndex.clear();
+    this.providerSizes.clear();
+    this.providerCounts.clear();
+    this.currentCacheSize = 0;
   }
 
   /**
@@ -229,87 +542,247 @@ export class TranslationCache {
 
   /**
    * 检查并清理缓存大小
-   * 当缓存大小超过限制时，按时间戳从旧到新删除缓存项
+   * 当缓存大小超过限制时，按淘汰策略依次删除缓存项，直到缓存大小低于限制
    */
   private checkAndCleanCacheSize(): void {
-    if (this.currentCacheSize <= this.maxCacheSize) {
-      return;
-    }
-
-    // 将缓存项转换为数组并按时间戳排序（从旧到新）
-    const items = Array.from(this.cache.entries())
-      .sort(([, a], [, b]) => a.timestamp - b.timestamp);
-
     let cleanedCount = 0;
-    // 从最旧的开始删除，直到缓存大小低于限制
-    while (this.currentCacheSize > this.maxCacheSize && items.length > 0) {
-      const [key, item] = items.shift()!;
-      const itemSize = this.calculateItemSize(key, item);
-      this.cache.delete(key);
-      this.currentCacheSize -= itemSize;
+    while (this.currentCacheSize > this.maxCacheSize) {
+      const key = this.evictionPolicy.victim();
+      if (key === undefined) {
+        break;
+      }
+      this.removeItem(key);
       cleanedCount++;
     }
 
     if (cleanedCount > 0) {
-      console.log(`缓存大小超出限制，已清理${cleanedCount}条最早的缓存项，当前缓存大小：${this.formatSize(this.currentCacheSize)}`);
-      this.saveCache();
+      console.log(`缓存大小超出限制，已按${this.evictionPolicy.description}策略清理${cleanedCount}条缓存项，当前缓存大小：${this.formatSize(this.currentCacheSize)}`);
+      this.compactIfNeeded();
     }
   }
 
-  public set(text: string, result: string, from: string, to: string): void {
-    const key = this.generateKey(text, from, to);
+  /**
+   * 设置翻译结果缓存
+   * @param text 原文
+   * @param result 翻译结果
+   * @param from 源语言
+   * @param to 目标语言
+   * @param provider 给出翻译结果的翻译器标识
+   */
+  public set(text: string, result: string, from: string, to: string, provider: string): void {
+    const key = this.generateKey(provider, text, from, to);
     
     // 创建缓存项
     const cacheItem: CacheItem = {
+      text,
       result,
       timestamp: Date.now(),
       from,
-      to
+      to,
+      provider
     };
     
-    // 如果是更新现有缓存项，先减去原有大小
-    if (this.cache.has(key)) {
-      const oldItem = this.cache.get(key)!;
-      this.currentCacheSize -= this.calculateItemSize(key, oldItem);
-    }
-    
-    // 计算新缓存项的大小
-    const newItemSize = this.calculateItemSize(key, cacheItem);
-    this.currentCacheSize += newItemSize;
-    
     // 更新缓存
-    this.cache.set(key, cacheItem);
+    this.addItem(key, cacheItem);
     
     // 检查并清理超出大小限制的缓存
     this.checkAndCleanCacheSize();
     
-    // 保存缓存
-    this.saveCache();
+    // 日志文件过大时压缩缓存文件
+    this.compactIfNeeded();
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * 获取所有未过期的缓存条目
+   * @returns 缓存条目列表，按写入顺序排列
+   */
+  public getEntries(): CacheEntry[] {
+    const now = Date.now();
+    return Array.from(this.cache.values()).filter(item => !this.isExpired(item, now));
+  }
+
+  /**
+   * 删除缓存条目
+   * @param entry 要删除的缓存条目，只需要翻译器、原文和语言对
+   * @returns 是否删除成功
+   */
+  public delete(entry: Pick<CacheEntry, 'provider' | 'text' | 'from' | 'to'>): boolean {
+    const removed = this.removeItem(this.generateKey(entry.provider, entry.text, entry.from, entry.to));
+    if (removed) {
+      this.compactIfNeeded();
+      this.changeEmitter.fire();
+    }
+    return !!removed;
+  }
+
+  /**
+   * 删除满足条件的缓存条目
+   * 用于术语表变化时使包含相关术语的翻译缓存失效
+   *
+   * @param predicate 判断缓存条目是否需要删除的函数
+   * @returns 删除的缓存条目数量
+   */
+  public deleteWhere(predicate: (entry: CacheEntry) => boolean): number {
+    const keys = Array.from(this.cache.entries())
+      .filter(([, item]) => predicate(item))
+      .map(([key]) => key);
+    keys.forEach(key => this.removeItem(key));
+    if (keys.length > 0) {
+      this.compactIfNeeded();
+      this.changeEmitter.fire();
+    }
+    return keys.length;
+  }
+
+  /**
+   * 手动修正缓存条目的翻译结果
+   * 修正后的缓存条目标记为用户覆盖项，永不过期也不会被淘汰，并优先于其他翻译器的结果返回
+   *
+   * @param entry 要修正的缓存条目
+   * @param result 修正后的翻译结果
+   */
+  public override(entry: CacheEntry, result: string): void {
+    const key = this.generateKey(entry.provider, entry.text, entry.from, entry.to);
+    this.addItem(key, {
+      text: entry.text,
+      result,
+      timestamp: Date.now(),
+      from: entry.from,
+      to: entry.to,
+      provider: entry.provider,
+      override: true
+    });
+    this.compactIfNeeded();
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * 统计导入时与本地缓存冲突的数量
+   * 同一翻译器对同一原文和语言对已有不同的翻译结果时视为冲突
+   *
+   * @param items 要导入的缓存项
+   * @returns 冲突数量
+   */
+  public countConflicts(items: CacheImportItem[]): number {
+    return items.filter(item => {
+      const existing = this.cache.get(this.generateKey(item.provider, item.text, item.from, item.to));
+      return !!existing && existing.result !== item.result;
+    }).length;
   }
 
   /**
-   * 清空所有缓存
+   * 批量导入缓存项
+   *
+   * 替换模式下先清空所有缓存（包括手动修正的翻译），再写入导入的缓存项并重写缓存文件；
+   * 合并模式下逐条写入，与本地缓存冲突时按conflictPolicy处理，与本地缓存相同的缓存项会被跳过
+   *
+   * @param items 要导入的缓存项
+   * @param replace 是否替换现有缓存
+   * @param conflictPolicy 合并模式下的冲突处理方式，默认保留本地缓存
+   * @returns 导入结果
    */
+  public import(
+    items: CacheImportItem[],
+    replace: boolean,
+    conflictPolicy: CacheImportConflictPolicy = 'keepLocal'
+  ): CacheImportResult {
+    const result: CacheImportResult = { added: 0, updated: 0, skipped: 0 };
+    const timestamp = Date.now();
+
+    if (replace) {
+      this.resetItems();
+    }
+
+    for (const item of items) {
+      const key = this.generateKey(item.provider, item.text, item.from, item.to);
+      const existing = this.cache.get(key);
+      if (existing) {
+        if (existing.result === item.result && !!existing.override === !!item.override) {
+          result.skipped++;
+          continue;
+        }
+        if (existing.result !== item.result && conflictPolicy === 'keepLocal') {
+          result.skipped++;
+          continue;
+        }
+        result.updated++;
+      } else {
+        result.added++;
+      }
+      this.addItem(key, { ...item, timestamp }, !replace);
+    }
+
+    this.checkAndCleanCacheSize();
+    if (replace) {
+      this.store.compact(this.cache.entries());
+    } else {
+      this.compactIfNeeded();
+    }
+    console.log(`已${replace ? '替换' : '合并'}导入翻译缓存：新增${result.added}条，更新${result.updated}条，跳过${result.skipped}条`);
+    this.changeEmitter.fire();
+    return result;
+  }
+
   /**
    * 获取缓存性能指标
+   *
+   * 指定翻译器时，命中率和响应时间统计该翻译器发起的查找，缓存大小和数量统计该翻译器给出的结果；
+   * 未指定时统计整个缓存
+   *
+   * @param provider 可选的翻译器标识
    * @returns 性能指标对象
    */
-  public getMetrics(): { hitRate: number; avgResponseTime: number; size: number } {
-    const total = this.metrics.hits + this.metrics.misses;
+  public getMetrics(provider?: string): TranslationCacheMetrics {
+    const statsList = provider
+      ? [this.getStats(provider)]
+      : Array.from(this.metrics.values());
+    const stats = statsList.reduce(
+      (sum, item) => ({
+        hits: sum.hits + item.hits,
+        misses: sum.misses + item.misses,
+        crossProviderHits: sum.crossProviderHits + item.crossProviderHits,
+        totalResponseTime: sum.totalResponseTime + item.totalResponseTime,
+        responses: sum.responses + item.responses
+      }),
+      { hits: 0, misses: 0, crossProviderHits: 0, totalResponseTime: 0, responses: 0 }
+    );
+    const total = stats.hits + stats.misses;
     return {
-      hitRate: total > 0 ? (this.metrics.hits / total) * 100 : 0,
-      avgResponseTime: this.metrics.responses > 0 ? this.metrics.totalResponseTime / this.metrics.responses : 0,
-      size: this.currentCacheSize
+      hitRate: total > 0 ? (stats.hits / total) * 100 : 0,
+      avgResponseTime: stats.responses > 0 ? stats.totalResponseTime / stats.responses : 0,
+      size: provider ? this.providerSizes.get(provider) ?? 0 : this.currentCacheSize,
+      entries: provider ? this.providerCounts.get(provider) ?? 0 : this.cache.size,
+      crossProviderHits: stats.crossProviderHits
     };
   }
 
-  public clear(): void {
-    this.cache.clear();
-    this.currentCacheSize = 0;
-    this.saveCache();
-    console.log('已清空所有翻译缓存');
+  /**
+   * 清空缓存
+   * 用户手动修正的翻译会被保留，只能在缓存浏览器中逐条删除
+   *
+   * @param provider 可选的翻译器标识，指定时只清空该翻译器的缓存
+   * @returns 保留的手动修正翻译数量
+   */
+  public clear(provider?: string): number {
+    const matching = Array.from(this.cache.entries())
+      .filter(([, item]) => !provider || item.provider === provider);
+    const removable = matching.filter(([, item]) => !item.override);
+    const keptCount = matching.length - removable.length;
+
+    if (keptCount === 0 && !provider) {
+      this.resetItems();
+      this.store.clear();
+    } else {
+      removable.forEach(([key]) => this.removeItem(key, false));
+      this.store.compact(this.cache.entries());
+    }
+    console.log(`已清空${provider ? `${provider}的` : '所有'}翻译缓存，保留${keptCount}条手动修正的翻译`);
+    this.changeEmitter.fire();
+    return keptCount;
   }
 
+
   /**
    * 获取缓存项数量
    * @returns 缓存项数量
@@ -0,0 +1,154 @@
+/**
+ * 翻译历史模块
+ *
+ * 记录每次翻译的原文、译文、翻译API、选择的命名格式以及所在的文件和语言，
+ * 保存在全局状态中，与翻译缓存相互独立，清空翻译缓存不会清除翻译历史
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * 翻译历史记录
+ *
+ * @property id - 记录标识
+ * @property text - 原文
+ * @property result - 译文
+ * @property from - 源语言
+ * @property to - 目标语言
+ * @property provider - 给出译文的翻译API或工作区翻译记忆的显示名称
+ * @property format - 选择的命名格式标识，未选择命名格式时为undefined
+ * @property file - 翻译时所在文件相对于工作区的路径
+ * @property languageId - 翻译时所在文件的语言标识
+ * @property timestamp - 翻译时间戳
+ * @property pinned - 是否已收藏，收藏的记录不会被自动删除
+ */
+export interface HistoryEntry {
+  id: string;
+  text: string;
+  result: string;
+  from: string;
+  to: string;
+  provider: string;
+  format?: string;
+  file?: string;
+  languageId?: string;
+  timestamp: number;
+  pinned?: boolean;
+}
+
+/**
+ * 新增翻译历史记录时需要提供的字段
+ */
+export type HistoryRecord = Omit<HistoryEntry, 'id' | 'timestamp' | 'pinned'>;
+
+/**
+ * 翻译历史
+ */
+export class TranslationHistory implements vscode.Disposable {
+  // 翻译历史在全局状态中的键
+  private static readonly STATE_KEY = 'uliTranslation.history';
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange: vscode.Event<void> = this.changeEmitter.event;
+
+  // 翻译历史，按时间从新到旧排列
+  private entries: HistoryEntry[];
+
+  /**
+   * 构造函数
+   * @param context 扩展上下文，用于读写全局状态
+   */
+  constructor(private readonly context: vscode.ExtensionContext) {
+    this.entries = context.globalState.get<HistoryEntry[]>(TranslationHistory.STATE_KEY, []);
+  }
+
+  /**
+   * 获取所有翻译历史记录
+   * @returns 翻译历史记录，按时间从新到旧排列
+   */
+  public getEntries(): readonly HistoryEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * 新增翻译历史记录
+   * 原文、译文和命名格式都相同的记录只保留最新的一条，并保留其收藏状态
+   *
+   * @param record 翻译历史记录
+   */
+  public add(record: HistoryRecord): void {
+    const config = vscode.workspace.getConfiguration('uliTranslation.history');
+    if (!config.get<boolean>('enable', true)) {
+      return;
+    }
+
+    const existing = this.entries.find(entry =>
+      entry.text === record.text && entry.result === record.result && entry.format === record.format);
+    const entry: HistoryEntry = {
+      ...record,
+      id: existing?.id ?? `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`,
+      timestamp: Date.now(),
+      pinned: existing?.pinned
+    };
+    this.entries = [entry, ...this.entries.filter(item => item !== existing)];
+
+    // 超出数量限制时删除最旧的未收藏记录
+    const maxEntries = config.get<number>('maxEntries', 500);
+    let unpinned = 0;
+    this.entries = this.entries.filter(item => item.pinned || ++unpinned <= maxEntries);
+    this.save();
+  }
+
+  /**
+   * 收藏或取消收藏翻译历史记录
+   * @param id 记录标识
+   * @param pinned 是否收藏
+   */
+  public setPinned(id: string, pinned: boolean): void {
+    const entry = this.entries.find(item => item.id === id);
+    if (entry) {
+      entry.pinned = pinned || undefined;
+      this.save();
+    }
+  }
+
+  /**
+   * 删除翻译历史记录
+   * @param id 记录标识
+   * @returns 是否删除了记录
+   */
+  public delete(id: string): boolean {
+    const count = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    if (this.entries.length === count) {
+      return false;
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * 清空翻译历史，收藏的记录会被保留
+   * @returns 保留的收藏记录数量
+   */
+  public clear(): number {
+    this.entries = this.entries.filter(entry => entry.pinned);
+    this.save();
+    return this.entries.length;
+  }
+
+  /**
+   * 将翻译历史写入全局状态
+   */
+  private save(): void {
+    this.context.globalState.update(TranslationHistory.STATE_KEY, this.entries);
+    this.changeEmitter.fire();
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,397 @@
+/**
+ * 翻译记忆模块
+ *
+ * 该模块提供翻译缓存的导出、导入功能，以及工作区级别的翻译记忆文件：
+ * 团队可以将商定的翻译提交到仓库的.vscode/uli-translation-memory.json中，
+ * 翻译时优先使用工作区翻译记忆，其次才查找全局翻译缓存和调用翻译API
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { CacheEntry, CacheImportItem, TranslationCache } from './translation-cache';
+import { TranslatorRegistry } from './translator-registry';
+import { CacheTreeItem } from './cache-tree-view';
+import { detectMemoryFormat, MemoryEntry, parseMemory, serializeMemory } from './memory-format';
+
+/**
+ * 导入的翻译记忆未注明翻译器时使用的翻译器标识
+ */
+export const IMPORTED_PROVIDER = 'import';
+
+/**
+ * 将缓存条目转换为翻译记忆条目
+ * @param entry 缓存条目
+ * @returns 翻译记忆条目
+ */
+function toMemoryEntry(entry: CacheEntry): MemoryEntry {
+  return {
+    source: entry.text,
+    target: entry.result,
+    from: entry.from,
+    to: entry.to,
+    provider: entry.provider,
+    ...(entry.override ? { override: true } : {})
+  };
+}
+
+/**
+ * 将翻译记忆条目转换为导入缓存的缓存项
+ * @param entry 翻译记忆条目
+ * @returns 缓存项
+ */
+function toCacheImportItem(entry: MemoryEntry): CacheImportItem {
+  return {
+    text: entry.source,
+    result: entry.target,
+    from: entry.from,
+    to: entry.to,
+    provider: entry.provider || IMPORTED_PROVIDER,
+    ...(entry.override ? { override: true } : {})
+  };
+}
+
+/**
+ * 工作区翻译记忆类
+ * 读取各工作区文件夹中的翻译记忆文件，文件变化时自动重新加载
+ */
+export class WorkspaceTranslationMemory implements vscode.Disposable {
+  // 翻译记忆索引，键为原文+目标语言
+  private index: Map<string, MemoryEntry[]> = new Map<string, MemoryEntry[]>();
+  // 翻译记忆文件监听器
+  private watchers: vscode.Disposable[] = [];
+  // 配置和工作区文件夹变化监听
+  private readonly listeners: vscode.Disposable[];
+
+  /**
+   * 构造函数
+   * 创建后立即加载翻译记忆并监听文件变化
+   */
+  constructor() {
+    this.listeners = [
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('uliTranslation.memory')) {
+          this.watch();
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.watch())
+    ];
+    this.watch();
+  }
+
+  /**
+   * 检查是否启用工作区翻译记忆
+   * @returns 是否启用
+   */
+  public isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('uliTranslation.memory').get<boolean>('enable', true);
+  }
+
+  /**
+   * 获取翻译记忆文件相对于工作区文件夹的路径
+   * @returns 相对路径
+   */
+  private getRelativePath(): string {
+    return vscode.workspace
+      .getConfiguration('uliTranslation.memory')
+      .get<string>('file', '.vscode/uli-translation-memory.json');
+  }
+
+  /**
+   * 获取第一个工作区文件夹中的翻译记忆文件
+   * @returns 翻译记忆文件的Uri，没有打开工作区时返回undefined
+   */
+  public getFileUri(): vscode.Uri | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? vscode.Uri.joinPath(folder.uri, this.getRelativePath()) : undefined;
+  }
+
+  /**
+   * 查找翻译记忆
+   * 源语言为auto的查找或翻译记忆可以匹配任意源语言
+   *
+   * @param text 原文
+   * @param from 源语言
+   * @param to 目标语言
+   * @returns 翻译记忆条目，没有匹配的翻译记忆时返回undefined
+   */
+  public lookup(text: string, from: string, to: string): MemoryEntry | undefined {
+    if (!this.isEnabled()) {
+      return undefined;
+    }
+    const candidates = this.index.get(`${text.trim()}|${to}`);
+    if (!candidates) {
+      return undefined;
+    }
+    return candidates.find(entry => entry.from === from)
+      ?? candidates.find(entry => from === 'auto' || entry.from === 'auto');
+  }
+
+  /**
+   * 将翻译添加到第一个工作区文件夹的翻译记忆文件
+   * 同一原文和语言对已存在时更新译文
+   *
+   * @param entry 翻译记忆条目
+   * @throws Error 当没有打开工作区或文件无法读写时抛出错误
+   */
+  public async add(entry: MemoryEntry): Promise<void> {
+    const uri = this.getFileUri();
+    if (!uri) {
+      throw new Error('请先打开工作区文件夹');
+    }
+
+    const entries = await this.readFile(uri);
+    const existing = entries.find(item =>
+      item.source === entry.source && item.from === entry.from && item.to === entry.to
+    );
+    if (existing) {
+      existing.target = entry.target;
+    } else {
+      entries.push(entry);
+    }
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeMemory(entries, 'json'), 'utf8'));
+    await this.reload();
+  }
+
+  /**
+   * 重新创建文件监听器并加载翻译记忆
+   */
+  private watch(): void {
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.watchers = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(folder, this.getRelativePath())
+      );
+      watcher.onDidCreate(() => this.reload());
+      watcher.onDidChange(() => this.reload());
+      watcher.onDidDelete(() => this.reload());
+      this.watchers.push(watcher);
+    }
+    this.reload();
+  }
+
+  /**
+   * 重新加载所有工作区文件夹中的翻译记忆
+   * 多个文件夹中存在相同的翻译记忆时，以先打开的文件夹为准
+   */
+  private async reload(): Promise<void> {
+    const index = new Map<string, MemoryEntry[]>();
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const uri = vscode.Uri.joinPath(folder.uri, this.getRelativePath());
+      let entries: MemoryEntry[];
+      try {
+        entries = await this.readFile(uri);
+      } catch (error) {
+        console.error(`读取工作区翻译记忆失败: ${uri.fsPath}`, error);
+        vscode.window.showWarningMessage(
+          `工作区翻译记忆文件读取失败: ${error instanceof Error ? error.message : '未知错误'}`
+        );
+        continue;
+      }
+      for (const entry of entries) {
+        const key = `${entry.source.trim()}|${entry.to}`;
+        const candidates = index.get(key) ?? [];
+        candidates.push(entry);
+        index.set(key, candidates);
+      }
+    }
+    this.index = index;
+    console.log(`已加载${index.size}条工作区翻译记忆`);
+  }
+
+  /**
+   * 读取翻译记忆文件
+   * @param uri 文件Uri
+   * @returns 翻译记忆条目，文件不存在时返回空数组
+   * @throws Error 当文件内容格式不正确时抛出错误
+   */
+  private async readFile(uri: vscode.Uri): Promise<MemoryEntry[]> {
+    let content: Uint8Array;
+    try {
+      content = await vscode.workspace.fs.readFile(uri);
+    } catch {
+      return [];
+    }
+    return parseMemory(Buffer.from(content).toString('utf8'), detectMemoryFormat(uri.fsPath));
+  }
+
+  public dispose(): void {
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.listeners.forEach(listener => listener.dispose());
+  }
+}
+
+/**
+ * 导出范围选项
+ */
+interface ExportScopeItem extends vscode.QuickPickItem {
+  filter: (entry: CacheEntry) => boolean;
+}
+
+/**
+ * 让用户选择要导出的缓存范围
+ * 可以导出全部缓存、仅手动修正的翻译、指定翻译器或指定语言对的翻译
+ *
+ * @param entries 所有缓存条目
+ * @param registry 翻译器注册表，用于显示翻译器名称
+ * @returns 选中范围内的缓存条目，用户取消时返回undefined
+ */
+async function pickExportEntries(
+  entries: CacheEntry[],
+  registry: TranslatorRegistry
+): Promise<CacheEntry[] | undefined> {
+  const count = (filter: (entry: CacheEntry) => boolean): string => `${entries.filter(filter).length}条`;
+  const items: ExportScopeItem[] = [
+    { label: '全部缓存', description: `${entries.length}条`, filter: () => true },
+    { label: '仅手动修正的翻译', description: count(entry => !!entry.override), filter: entry => !!entry.override }
+  ];
+
+  const providers = Array.from(new Set(entries.map(entry => entry.provider)));
+  for (const provider of providers) {
+    const filter = (entry: CacheEntry): boolean => entry.provider === provider;
+    items.push({
+      label: `仅${registry.get(provider)?.displayName ?? provider}的翻译`,
+      description: count(filter),
+      filter
+    });
+  }
+
+  const pairs = Array.from(new Set(entries.map(entry => `${entry.from}→${entry.to}`)));
+  for (const pair of pairs) {
+    const filter = (entry: CacheEntry): boolean => `${entry.from}→${entry.to}` === pair;
+    items.push({ label: `仅${pair}的翻译`, description: count(filter), filter });
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: '导出翻译缓存',
+    placeHolder: '选择要导出的缓存范围'
+  });
+  return selected ? entries.filter(selected.filter) : undefined;
+}
+
+/**
+ * 注册工作区翻译记忆以及导出、导入翻译缓存的命令
+ *
+ * @param context 扩展上下文，用于注册命令和管理资源
+ * @param cache 翻译缓存
+ * @param registry 翻译器注册表
+ * @param memory 工作区翻译记忆
+ */
+export function registerTranslationMemory(
+  context: vscode.ExtensionContext,
+  cache: TranslationCache,
+  registry: TranslatorRegistry,
+  memory: WorkspaceTranslationMemory
+): void {
+  context.subscriptions.push(
+    memory,
+
+    // 导出翻译缓存
+    vscode.commands.registerCommand('uli-translation.exportCache', async () => {
+      const entries = cache.getEntries();
+      if (entries.length === 0) {
+        vscode.window.showInformationMessage('翻译缓存为空，没有可导出的翻译');
+        return;
+      }
+
+      const selected = await pickExportEntries(entries, registry);
+      if (!selected) {
+        return;
+      }
+      if (selected.length === 0) {
+        vscode.window.showInformationMessage('所选范围内没有翻译缓存');
+        return;
+      }
+
+      const uri = await vscode.window.showSaveDialog({
+        title: '导出翻译缓存',
+        defaultUri: memory.getFileUri(),
+        filters: { 'JSON': ['json'], 'TMX': ['tmx'] }
+      });
+      if (!uri) {
+        return;
+      }
+
+      try {
+        const content = serializeMemory(selected.map(toMemoryEntry), detectMemoryFormat(uri.fsPath));
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+        vscode.window.showInformationMessage(`已导出${selected.length}条翻译缓存到${uri.fsPath}`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`导出翻译缓存失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      }
+    }),
+
+    // 导入翻译缓存
+    vscode.commands.registerCommand('uli-translation.importCache', async () => {
+      const [uri] = await vscode.window.showOpenDialog({
+        title: '导入翻译缓存',
+        canSelectMany: false,
+        filters: { '翻译记忆': ['json', 'tmx'] }
+      }) ?? [];
+      if (!uri) {
+        return;
+      }
+
+      let items: CacheImportItem[];
+      try {
+        const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        items = parseMemory(content, detectMemoryFormat(uri.fsPath)).map(toCacheImportItem);
+      } catch (error) {
+        vscode.window.showErrorMessage(`导入翻译缓存失败: ${error instanceof Error ? error.message : '未知错误'}`);
+        return;
+      }
+      if (items.length === 0) {
+        vscode.window.showInformationMessage('文件中没有可导入的翻译');
+        return;
+      }
+
+      // 选择导入方式
+      const mode = await vscode.window.showQuickPick(
+        [
+          { label: '合并', description: '保留现有缓存，将导入的翻译合并进来', replace: false },
+          { label: '替换', description: '删除现有的所有缓存（包括手动修正的翻译），只保留导入的翻译', replace: true }
+        ],
+        { title: `导入${items.length}条翻译`, placeHolder: '选择导入方式' }
+      );
+      if (!mode) {
+        return;
+      }
+
+      // 合并时处理与本地缓存冲突的翻译
+      let useImported = false;
+      const conflicts = mode.replace ? 0 : cache.countConflicts(items);
+      if (conflicts > 0) {
+        const choice = await vscode.window.showWarningMessage(
+          `有${conflicts}条导入的翻译与本地缓存不同，如何处理？`,
+          { modal: true },
+          '使用导入的翻译',
+          '保留本地翻译'
+        );
+        if (!choice) {
+          return;
+        }
+        useImported = choice === '使用导入的翻译';
+      }
+
+      const result = cache.import(items, mode.replace, useImported ? 'useImported' : 'keepLocal');
+      vscode.window.showInformationMessage(
+        `翻译缓存导入完成：新增${result.added}条，更新${result.updated}条，跳过${result.skipped}条`
+      );
+    }),
+
+    // 将缓存条目添加到工作区翻译记忆
+    vscode.commands.registerCommand('uli-translation.cache.addToMemory', async (item?: CacheTreeItem) => {
+      if (!item) {
+        return;
+      }
+      try {
+        await memory.add(toMemoryEntry(item.entry));
+        vscode.window.showInformationMessage(`已将「${item.entry.text}」的翻译添加到工作区翻译记忆`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`添加到工作区翻译记忆失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      }
+    })
+  );
+}
@@ -0,0 +1,445 @@
+/**
+ * 翻译面板模块
+ *
+ * 在活动栏的ULI Translation视图中提供翻译面板：可以输入任意文本，选择源语言、目标语言和翻译API，
+ * 查看译文的各种命名格式并复制或插入到编辑器，以及查看原文、译文、术语和词典释义等详情。
+ * 面板中的所有内容都经过escapeHtml转义后再渲染，并使用严格的内容安全策略，只允许带nonce的样式和脚本
+ *
+ * @author uli
+ * @version 1.1.0
+ */
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { AUTO_LANGUAGE, getLanguageName, LANGUAGES } from './languages';
+import { getLanguageSettings } from './language-picker';
+import { TranslationHistory } from './translation-history';
+import { DictionaryEntry, Translator } from './translator';
+import { TranslationOutcome, TranslatorRegistry } from './translator-registry';
+import { escapeHtml, NAMING_FORMATS } from './utils';
+
+/**
+ * 面板发送给插件的消息
+ */
+type PanelMessage =
+  | { type: 'ready' }
+  | { type: 'translate'; text: string; from: string; to: string; provider: string }
+  | { type: 'copy'; value: string }
+  | { type: 'insert'; value: string };
+
+/**
+ * 选择翻译API时表示使用默认翻译API及备用翻译API的取值
+ */
+const AUTO_PROVIDER = 'auto';
+
+/**
+ * 查询词典释义的最大文本长度，更长的文本只翻译不查词典
+ */
+const MAX_DICTIONARY_LENGTH = 50;
+
+/**
+ * 生成按钮的HTML
+ * @param action 按钮的操作
+ * @param value 操作使用的文本
+ * @param label 按钮文字
+ * @returns 按钮的HTML
+ */
+function renderButton(action: 'copy' | 'insert', value: string, label: string): string {
+  return `<button class="secondary" data-action="${action}" data-value="${escapeHtml(value)}">${escapeHtml(label)}</button>`;
+}
+
+/**
+ * 生成词典释义的HTML
+ * @param entry 词典释义
+ * @returns 词典释义的HTML
+ */
+function renderDictionary(entry: DictionaryEntry): string {
+  const phonetics = entry.phonetics
+    .map(({ label, value }) => `<span class="phonetic">${escapeHtml(label)} [${escapeHtml(value)}]</span>`)
+    .join('');
+  const meanings = entry.meanings
+    .map(({ partOfSpeech, definitions }) =>
+      `<li>${partOfSpeech ? `<span class="pos">${escapeHtml(partOfSpeech)}</span>` : ''}${escapeHtml(definitions.join('；'))}</li>`)
+    .join('');
+  return `<h3>词典 · ${escapeHtml(entry.word)}</h3>
+    ${phonetics ? `<div class="phonetics">${phonetics}</div>` : ''}
+    ${meanings ? `<ul class="meanings">${meanings}</ul>` : ''}`;
+}
+
+/**
+ * 生成翻译结果的HTML
+ * @param text 原文
+ * @param from 源语言
+ * @param to 目标语言
+ * @param outcome 翻译结果
+ * @param dictionary 词典释义
+ * @returns 翻译结果的HTML
+ */
+function renderResult(
+  text: string,
+  from: string,
+  to: string,
+  outcome: TranslationOutcome,
+  dictionary?: DictionaryEntry
+): string {
+  const result = outcome.text;
+  const notes: string[] = [`由${outcome.sourceName}提供`, `${getLanguageName(from)} → ${getLanguageName(to)}`];
+  if (outcome.failures.length > 0) {
+    notes.push(`${outcome.failures.map(failure => failure.translator.shortName).join('、')}调用失败，已自动切换`);
+  }
+  if (outcome.glossaryHits.length > 0) {
+    notes.push(`术语表: ${outcome.glossaryHits.map(hit => `${hit.source}→${hit.target}`).join('、')}`);
+  } else if (outcome.remoteGlossary) {
+    notes.push('已使用翻译API的术语库');
+  }
+
+  const warning = [
+    outcome.lostPlaceholders.length > 0
+      ? `<div class="warning">译文中丢失了占位符或标记：${escapeHtml(outcome.lostPlaceholders.join('、'))}，请检查后再使用</div>`
+      : '',
+    outcome.lostTerms.length > 0
+      ? `<div class="warning">译文中没有使用术语表规定的译文：${escapeHtml(
+        outcome.lostTerms.map(term => `${term.source}→${term.target}`).join('、')
+      )}，请检查后再使用</div>`
+      : ''
+  ].join('');
+
+  // 单行译文才提供命名格式
+  const formats = result.includes('\n') ? '' : `<h3>命名格式</h3>
+    <table class="formats">${NAMING_FORMATS.map(namingFormat => {
+      const value = namingFormat.format(result);
+      return `<tr>
+        <td class="label">${escapeHtml(namingFormat.label)}</td>
+        <td><code>${escapeHtml(value)}</code></td>
+        <td class="buttons">${renderButton('copy', value, '复制')}${renderButton('insert', value, '插入')}</td>
+      </tr>`;
+    }).join('')}</table>`;
+
+  return `<div class="meta">${escapeHtml(notes.join(' · '))}</div>
+    ${warning}
+    <div class="translation">${escapeHtml(result)}</div>
+    <div class="buttons">${renderButton('copy', result, '复制译文')}${renderButton('insert', result, '插入到编辑器')}</div>
+    ${formats}
+    <h3>详情</h3>
+    <dl class="detail">
+      <dt>原文</dt><dd>${escapeHtml(text)}</dd>
+      <dt>译文</dt><dd>${escapeHtml(result)}</dd>
+      <dt>翻译API</dt><dd>${escapeHtml(outcome.sourceName)}</dd>
+      <dt>语言</dt><dd>${escapeHtml(`${getLanguageName(from)} → ${getLanguageName(to)}`)}</dd>
+    </dl>
+    ${dictionary ? renderDictionary(dictionary) : ''}`;
+}
+
+/**
+ * 翻译面板视图提供者
+ */
+export class TranslationPanelProvider implements vscode.WebviewViewProvider {
+  public static readonly viewId = 'uliTranslation.translatePanel';
+
+  private view: vscode.WebviewView | undefined;
+  // 面板的脚本是否已经加载，加载前发送的消息会丢失
+  private ready = false;
+  // 面板尚未加载时要翻译的文本，面板加载后再翻译
+  private pending: { text: string; from?: string; to?: string } | undefined;
+
+  /**
+   * 构造函数
+   * @param registry 翻译器注册表
+   * @param history 翻译历史
+   */
+  constructor(
+    private readonly registry: TranslatorRegistry,
+    private readonly history: TranslationHistory
+  ) {}
+
+  public resolveWebviewView(webviewView: vscode.WebviewView): void {
+    this.view = webviewView;
+    this.ready = false;
+    webviewView.webview.options = { enableScripts: true, localResourceRoots: [] };
+    webviewView.webview.html = this.getHtml();
+    webviewView.webview.onDidReceiveMessage((message: PanelMessage) => this.handleMessage(message));
+    webviewView.onDidDispose(() => {
+      this.view = undefined;
+      this.ready = false;
+    });
+  }
+
+  /**
+   * 在面板中翻译文本，面板尚未加载时加载后再翻译
+   * @param text 要翻译的文本
+   * @param from 源语言，未指定时使用面板中选择的源语言
+   * @param to 目标语言，未指定时使用面板中选择的目标语言
+   */
+  public show(text: string, from?: string, to?: string): void {
+    if (!text) {
+      return;
+    }
+    if (!this.view || !this.ready) {
+      this.pending = { text, from, to };
+      return;
+    }
+    this.view.webview.postMessage({ type: 'setInput', text, from, to });
+  }
+
+  /**
+   * 处理面板发送的消息
+   * @param message 消息
+   */
+  private async handleMessage(message: PanelMessage): Promise<void> {
+    switch (message.type) {
+      case 'ready':
+        this.ready = true;
+        if (this.pending) {
+          const { text, from, to } = this.pending;
+          this.pending = undefined;
+          this.show(text, from, to);
+        }
+        break;
+
+      case 'translate':
+        await this.translate(message.text, message.from, message.to, message.provider);
+        break;
+
+      case 'copy':
+        await vscode.env.clipboard.writeText(message.value);
+        vscode.window.setStatusBarMessage('已复制到剪贴板', 3000);
+        break;
+
+      case 'insert': {
+        // 面板获得焦点时活动编辑器不变，插入到所有选区
+        const editor = vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+        if (!editor) {
+          vscode.window.showInformationMessage('没有打开的编辑器');
+          return;
+        }
+        await editor.edit(editBuilder => {
+          for (const selection of editor.selections) {
+            editBuilder.replace(selection, message.value);
+          }
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * 翻译文本并在面板中显示结果
+   * @param text 要翻译的文本
+   * @param from 源语言
+   * @param to 目标语言
+   * @param provider 翻译器标识，为auto时使用默认翻译API及备用翻译API
+   */
+  private async translate(text: string, from: string, to: string, provider: string): Promise<void> {
+    const webview = this.view?.webview;
+    if (!webview || !text.trim()) {
+      return;
+    }
+    webview.postMessage({ type: 'loading' });
+
+    try {
+      let outcome: TranslationOutcome;
+      const translator = provider === AUTO_PROVIDER ? undefined : this.registry.get(provider);
+      if (translator) {
+        const result = await translator.translateDetailed(text, from, to);
+        outcome = { ...result, translator, sourceName: translator.displayName, failures: [] };
+      } else {
+        outcome = await this.registry.translate(text, from, to);
+      }
+
+      this.history.add({ text, result: outcome.text, from, to, provider: outcome.sourceName });
+
+      const dictionary = await this.lookupDictionary(text, from, to, translator);
+      webview.postMessage({ type: 'result', html: renderResult(text, from, to, outcome, dictionary) });
+    } catch (error) {
+      webview.postMessage({
+        type: 'result',
+        html: `<div class="error">${escapeHtml(`翻译失败: ${error instanceof Error ? error.message : '未知错误'}`)}</div>`
+      });
+    }
+  }
+
+  /**
+   * 查询单词或短语的词典释义
+   * 优先使用选择的翻译API，未选择或该翻译API不提供词典资源时使用第一个提供词典资源的翻译API
+   *
+   * @param text 要查询的文本
+   * @param from 源语言
+   * @param to 目标语言
+   * @param preferred 选择的翻译器
+   * @returns 词典释义，查询失败或没有词典资源时返回undefined
+   */
+  private async lookupDictionary(
+    text: string,
+    from: string,
+    to: string,
+    preferred?: Translator
+  ): Promise<DictionaryEntry | undefined> {
+    const word = text.trim();
+    if (word.length > MAX_DICTIONARY_LENGTH || word.includes('\n')) {
+      return undefined;
+    }
+    const translator = [...(preferred ? [preferred] : []), ...this.registry.getOrdered()]
+      .find(item => item.lookupDictionary && item.isConfigValid());
+    try {
+      return await translator?.lookupDictionary?.(word, from, to);
+    } catch (error) {
+      console.warn(`查询词典释义失败: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * 生成面板的HTML
+   * @returns 面板的HTML
+   */
+  private getHtml(): string {
+    const nonce = crypto.randomBytes(16).toString('base64');
+    const { from, to } = getLanguageSettings();
+    const languageOptions = (selected: string, includeAuto: boolean) => LANGUAGES
+      .filter(language => includeAuto || language.code !== AUTO_LANGUAGE)
+      .map(language => `<option value="${escapeHtml(language.code)}"${language.code === selected ? ' selected' : ''}>${escapeHtml(language.name)}</option>`)
+      .join('');
+    const providerOptions = [
+      `<option value="${AUTO_PROVIDER}">默认（失败时自动切换）</option>`,
+      ...this.registry.getAll().map(translator =>
+        `<option value="${escapeHtml(translator.id)}">${escapeHtml(translator.displayName)}</option>`)
+    ].join('');
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style nonce="${nonce}">
+    body { padding: 8px; color: var(--vscode-foreground); font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); }
+    textarea, select { width: 100%; box-sizing: border-box; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 4px; }
+    textarea { min-height: 72px; resize: vertical; font-family: inherit; }
+    .row { display: flex; gap: 4px; margin: 6px 0; align-items: center; }
+    .row select { flex: 1; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); padding: 2px 6px; margin-left: 4px; }
+    button.secondary:hover { background: var(--vscode-button-secondaryHoverBackground); }
+    .meta { color: var(--vscode-descriptionForeground); margin: 8px 0 4px; }
+    .translation { white-space: pre-wrap; font-size: 1.1em; margin: 4px 0; user-select: text; }
+    .buttons { white-space: nowrap; text-align: right; }
+    h3 { margin: 14px 0 4px; font-size: 1em; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 2px 0; vertical-align: middle; }
+    td.label { color: var(--vscode-descriptionForeground); width: 40%; }
+    code { font-family: var(--vscode-editor-font-family); word-break: break-all; }
+    dl.detail dt { color: var(--vscode-descriptionForeground); margin-top: 4px; }
+    dl.detail dd { margin: 0 0 0 8px; white-space: pre-wrap; }
+    .phonetic { margin-right: 12px; }
+    .pos { font-style: italic; margin-right: 6px; color: var(--vscode-descriptionForeground); }
+    ul.meanings { padding-left: 16px; margin: 4px 0; }
+    .warning { color: var(--vscode-editorWarning-foreground); }
+    .error { color: var(--vscode-errorForeground); }
+  </style>
+</head>
+<body>
+  <textarea id="input" placeholder="输入要翻译的文本，Ctrl+Enter翻译"></textarea>
+  <div class="row">
+    <select id="from" title="源语言">${languageOptions(from, true)}</select>
+    <button id="swap" class="secondary" title="互换源语言和目标语言">⇄</button>
+    <select id="to" title="目标语言">${languageOptions(to, false)}</select>
+  </div>
+  <div class="row">
+    <select id="provider" title="翻译API">${providerOptions}</select>
+    <button id="translate">翻译</button>
+  </div>
+  <div id="result"></div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const input = document.getElementById('input');
+    const from = document.getElementById('from');
+    const to = document.getElementById('to');
+    const provider = document.getElementById('provider');
+    const result = document.getElementById('result');
+
+    const state = vscode.getState();
+    if (state) {
+      input.value = state.text;
+      result.innerHTML = state.html;
+    }
+
+    function translate() {
+      vscode.postMessage({ type: 'translate', text: input.value, from: from.value, to: to.value, provider: provider.value });
+    }
+
+    document.getElementById('translate').addEventListener('click', translate);
+    input.addEventListener('keydown', event => {
+      if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+        translate();
+      }
+    });
+    document.getElementById('swap').addEventListener('click', () => {
+      if (from.value === 'auto') {
+        return;
+      }
+      const source = from.value;
+      from.value = to.value;
+      to.value = source;
+    });
+    result.addEventListener('click', event => {
+      const button = event.target.closest('button[data-action]');
+      if (button) {
+        vscode.postMessage({ type: button.dataset.action, value: button.dataset.value });
+      }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+
+    // 插件发送的结果已经在插件中转义
+    window.addEventListener('message', event => {
+      const message = event.data;
+      if (message.type === 'setInput') {
+        input.value = message.text;
+        if (message.from) {
+          from.value = message.from;
+        }
+        if (message.to) {
+          to.value = message.to;
+        }
+        translate();
+      } else if (message.type === 'loading') {
+        result.innerHTML = '<div class="meta">正在翻译...</div>';
+      } else if (message.type === 'result') {
+        result.innerHTML = message.html;
+        vscode.setState({ text: input.value, html: message.html });
+      }
+    });
+  </script>
+</body>
+</html>`;
+  }
+}
+
+/**
+ * 注册翻译面板以及打开翻译面板的命令
+ *
+ * @param context 扩展上下文，用于注册视图、命令和管理资源
+ * @param registry 翻译器注册表
+ * @param history 翻译历史
+ */
+export function registerTranslationPanel(
+  context: vscode.ExtensionContext,
+  registry: TranslatorRegistry,
+  history: TranslationHistory
+): void {
+  const provider = new TranslationPanelProvider(registry, history);
+  context.subscriptions.push(
+    vscode.window.registerWebviewViewProvider(TranslationPanelProvider.viewId, provider, {
+      webviewOptions: { retainContextWhenHidden: true }
+    }),
+
+    // 打开翻译面板，传入文本时直接翻译，否则翻译编辑器中选中的文本
+    vscode.commands.registerCommand('uli-translation.openTranslationPanel', async (text?: string, from?: string, to?: string) => {
+      const editor = vscode.window.activeTextEditor;
+      const input = typeof text === 'string' ? text : editor?.document.getText(editor.selection) ?? '';
+      await vscode.commands.executeCommand(`${TranslationPanelProvider.viewId}.focus`);
+      provider.show(input, from, to);
+    })
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * 翻译器注册表模块
+ *
+ * 该模块负责管理所有已注册的翻译器，命令通过注册表查找翻译器，
+ * 并根据uliTranslation.defaultTranslator配置和各翻译器的配置状态确定要使用的翻译器
+ * 翻译时优先使用工作区翻译记忆，没有匹配的翻译记忆时才调用翻译器
+ *
+ * @author uli
+ * @version 1.2.0
+ */
+
+import * as vscode from 'vscode';
+import { TranslationError, Translator } from './translator';
+import { WorkspaceTranslationMemory } from './translation-memory';
+import { GlossaryHit } from './glossary';
+
+/**
+ * 翻译调用失败记录
+ *
+ * @property translator - 调用失败的翻译器
+ * @property error - 失败原因
+ */
+export interface TranslationFailure {
+  translator: Translator;
+  error: TranslationError;
+}
+
+/**
+ * 翻译器最近一次调用失败的记录
+ *
+ * @property error - 失败原因
+ * @property timestamp - 失败时间戳
+ */
+export interface TranslatorErrorState {
+  error: TranslationError;
+  timestamp: number;
+}
+
+/**
+ * 通过注册表翻译的结果
+ *
+ * @property text - 翻译结果
+ * @property translator - 实际给出翻译结果的翻译器，结果来自工作区翻译记忆时为undefined
+ * @property sourceName - 翻译结果来源的显示名称
+ * @property glossaryHits - 原文中命中的术语
+ * @property remoteGlossary - 术语是否交给翻译API的术语库处理
+ * @property lostPlaceholders - 翻译结果中丢失的占位符或标记
+ * @property lostTerms - 译文中没有使用规定译文的术语
+ * @property failures - 在此之前调用失败并被跳过的翻译器
+ */
+export interface TranslationOutcome {
+  text: string;
+  translator?: Translator;
+  sourceName: string;
+  glossaryHits: GlossaryHit[];
+  remoteGlossary: boolean;
+  lostPlaceholders: string[];
+  lostTerms: GlossaryHit[];
+  failures: TranslationFailure[];
+}
+
+/**
+ * 翻译器注册表类
+ * 按注册顺序保存翻译器，并提供按默认设置和可用性选择翻译器的功能
+ */
+export class TranslatorRegistry {
+  // 已注册的翻译器，键为翻译器标识
+  private translators: Map<string, Translator> = new Map<string, Translator>();
+  // 各翻译器最近一次调用失败的记录，调用成功后清除
+  private errors: Map<string, TranslatorErrorState> = new Map<string, TranslatorErrorState>();
+
+  private readonly statusEmitter = new vscode.EventEmitter<void>();
+  /** 翻译器调用失败或从失败中恢复时触发 */
+  public readonly onDidChangeStatus: vscode.Event<void> = this.statusEmitter.event;
+
+  /**
+   * 构造函数
+   * @param memory 可选的工作区翻译记忆，翻译时优先查找
+   */
+  constructor(private readonly memory?: WorkspaceTranslationMemory) {}
+
+  /**
+   * 注册翻译器
+   * @param translator 翻译器实例
+   * @throws Error 当翻译器标识重复时抛出错误
+   */
+  public register(translator: Translator): void {
+    if (this.translators.has(translator.id)) {
+      throw new Error(`翻译器${translator.id}已注册，请勿重复注册`);
+    }
+    this.translators.set(translator.id, translator);
+  }
+
+  /**
+   * 根据标识获取翻译器
+   * @param id 翻译器标识
+   * @returns 翻译器实例，未注册时返回undefined
+   */
+  public get(id: string): Translator | undefined {
+    return this.translators.get(id);
+  }
+
+  /**
+   * 获取所有已注册的翻译器
+   * @returns 翻译器列表，按注册顺序排列
+   */
+  public getAll(): Translator[] {
+    return Array.from(this.translators.values());
+  }
+
+  /**
+   * 获取配置有效的翻译器
+   * @returns 配置有效的翻译器列表
+   */
+  public getValid(): Translator[] {
+    return this.getAll().filter(translator => translator.isConfigValid());
+  }
+
+  /**
+   * 获取用户设置的默认翻译器标识
+   * @returns 默认翻译器标识，未注册的取值会回退到第一个已注册的翻译器
+   */
+  public getDefaultId(): string {
+    const config = vscode.workspace.getConfiguration('uliTranslation');
+    const defaultId = config.get<string>('defaultTranslator', 'baidu');
+    if (this.translators.has(defaultId)) {
+      return defaultId;
+    }
+    const [first] = this.translators.keys();
+    return first ?? defaultId;
+  }
+
+  /**
+   * 获取按优先级排列的翻译器列表
+   * 默认翻译器排在首位，其余翻译器按uliTranslation.fallback.order配置的顺序排列，
+   * 未在配置中列出的翻译器按注册顺序排在最后
+   *
+   * @returns 翻译器列表
+   */
+  public getOrdered(): Translator[] {
+    const defaultId = this.getDefaultId();
+    const order = vscode.workspace
+      .getConfiguration('uliTranslation.fallback')
+      .get<string[]>('order', []);
+    const rank = (translator: Translator): number => {
+      if (translator.id === defaultId) {
+        return -1;
+      }
+      const index = order.indexOf(translator.id);
+      return index === -1 ? order.length : index;
+    };
+    // Array.prototype.sort是稳定排序，相同优先级的翻译器保持注册顺序
+    return this.getAll().sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * 获取备用翻译链
+   * 由配置有效的翻译器按优先级组成，关闭自动切换时只包含首个可用的翻译器
+   *
+   * @returns 备用翻译链
+   */
+  public getFallbackChain(): Translator[] {
+    const chain = this.getOrdered().filter(translator => translator.isConfigValid());
+    const fallbackEnabled = vscode.workspace
+      .getConfiguration('uliTranslation.fallback')
+      .get<boolean>('enable', true);
+    return fallbackEnabled ? chain : chain.slice(0, 1);
+  }
+
+  /**
+   * 使用备用翻译链翻译文本
+   *
+   * 工作区翻译记忆中有匹配的翻译时直接返回，否则按优先级依次调用翻译器，遇到可重试的错误（如访问频率受限、余额不足、网络异常）时
+   * 自动切换到下一个配置有效的翻译器，遇到不可重试的错误时直接抛出
+   *
+   * @param text 要翻译的文本
+   * @param from 源语言
+   * @param to 目标语言
+   * @returns 翻译结果及实际给出结果的翻译器
+   * @throws Error 当没有可用的翻译器或所有翻译器都调用失败时抛出错误
+   */
+  public async translate(text: string, from: string, to: string): Promise<TranslationOutcome> {
+    const remembered = this.memory?.lookup(text, from, to);
+    if (remembered) {
+      return {
+        text: remembered.target,
+        sourceName: '工作区翻译记忆',
+        glossaryHits: [],
+        remoteGlossary: false,
+        lostPlaceholders: [],
+        lostTerms: [],
+        failures: []
+      };
+    }
+
+    const chain = this.getFallbackChain();
+    if (chain.length === 0) {
+      throw new Error('没有配置有效的翻译API，请先在设置中配置翻译API');
+    }
+
+    const failures: TranslationFailure[] = [];
+    for (const translator of chain) {
+      try {
+        const result = await translator.translateDetailed(text, from, to);
+        this.setError(translator, undefined);
+        return {
+          text: result.text,
+          translator,
+          sourceName: translator.displayName,
+          glossaryHits: result.glossaryHits,
+          remoteGlossary: result.remoteGlossary,
+          lostPlaceholders: result.lostPlaceholders,
+          lostTerms: result.lostTerms,
+          failures
+        };
+      } catch (error) {
+        if (error instanceof TranslationError) {
+          this.setError(translator, error);
+        }
+        // 不可重试的错误直接抛出，交给调用方处理
+        if (!(error instanceof TranslationError) || !error.retryable) {
+          throw error;
+        }
+        console.warn(`${translator.displayName}调用失败，尝试切换到下一个翻译API: ${error.message}`);
+        failures.push({ translator, error });
+      }
+    }
+
+    // 所有翻译器都调用失败
+    if (failures.length === 1) {
+      throw failures[0].error;
+    }
+    const details = failures
+      .map(({ translator, error }) => `${translator.displayName}: ${error.message}`)
+      .join('；');
+    throw new Error(`所有翻译API均调用失败（${details}）`);
+  }
+
+  /**
+   * 获取翻译器最近一次调用失败的记录
+   * @param id 翻译器标识
+   * @returns 失败记录，最近一次调用成功或尚未调用时返回undefined
+   */
+  public getError(id: string): TranslatorErrorState | undefined {
+    return this.errors.get(id);
+  }
+
+  /**
+   * 记录或清除翻译器的调用失败状态
+   * @param translator 翻译器
+   * @param error 失败原因，为undefined时清除失败记录
+   */
+  private setError(translator: Translator, error: TranslationError | undefined): void {
+    if (!error && !this.errors.has(translator.id)) {
+      return;
+    }
+    if (error) {
+      this.errors.set(translator.id, { error, timestamp: Date.now() });
+    } else {
+      this.errors.delete(translator.id);
+    }
+    this.statusEmitter.fire();
+  }
+
+  /**
+   * 确定要使用的翻译器
+   * 优先使用默认翻译器，默认翻译器配置无效时使用第一个配置有效的翻译器
+   *
+   * @returns 要使用的翻译器，所有翻译器配置都无效时返回undefined
+   */
+  public resolve(): Translator | undefined {
+    return this.getOrdered().find(translator => translator.isConfigValid());
+  }
+}
@@ -0,0 +1,467 @@
+/**
+ * 翻译器公共接口模块
+ *
+ * 该模块定义所有翻译API封装类需要遵循的统一契约，
+ * 并提供包含缓存查找、术语表、性能告警等公共逻辑的抽象基类
+ *
+ * @author uli
+ * @version 1.3.0
+ */
+
+import * as vscode from 'vscode';
+import { TranslationCache, TranslationCacheMetrics } from './translation-cache';
+import { GlossaryHit, WorkspaceGlossary } from './glossary';
+import { isOnlyTokens, TextMasker } from './text-masking';
+import { AUTO_LANGUAGE, getLanguageName, toProviderLanguage } from './languages';
+
+/**
+ * 翻译错误类
+ *
+ * 翻译API返回错误或请求失败时抛出，retryable表示该错误是否可以交给下一个翻译器重试
+ * （如访问频率受限、账户余额不足、网络异常等），配置或参数错误则不可重试
+ */
+export class TranslationError extends Error {
+  /**
+   * 构造函数
+   * @param message 错误信息
+   * @param provider 抛出错误的翻译器标识
+   * @param code 翻译API返回的错误码，网络错误等情况下为undefined
+   * @param retryable 是否可以切换到其他翻译器重试
+   */
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly code?: string,
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'TranslationError';
+  }
+}
+
+/**
+ * 翻译结果详情
+ *
+ * @property text - 翻译结果
+ * @property glossaryHits - 原文中命中、并已在译文中替换为规定译文的术语
+ * @property remoteGlossary - 术语是否交给翻译API的术语库处理（如腾讯云TermRepoIDList）
+ * @property lostPlaceholders - 翻译结果中丢失的占位符或标记，不为空时翻译结果不可直接使用
+ * @property lostTerms - 翻译API丢弃了占位标记、译文中没有使用规定译文的术语，不为空时翻译结果不会被缓存
+ */
+export interface TranslationResult {
+  text: string;
+  glossaryHits: GlossaryHit[];
+  remoteGlossary: boolean;
+  lostPlaceholders: string[];
+  lostTerms: GlossaryHit[];
+}
+
+/**
+ * 词典释义
+ *
+ * @property word - 查询的单词或短语
+ * @property phonetics - 音标或拼音，如[{ label: '英', value: 'ˈæpl' }]
+ * @property meanings - 按词性分组的释义
+ */
+export interface DictionaryEntry {
+  word: string;
+  phonetics: { label: string; value: string }[];
+  meanings: { partOfSpeech: string; definitions: string[] }[];
+}
+
+/**
+ * 翻译器接口
+ *
+ * 所有翻译API封装类都需要实现该接口，命令通过TranslatorRegistry查找并使用翻译器，
+ * 新增翻译引擎时只需新增一个实现类并注册即可
+ */
+export interface Translator {
+  /** 翻译器标识，与uliTranslation.defaultTranslator配置的取值一致，如baidu */
+  readonly id: string;
+  /** 翻译器显示名称，如“百度翻译” */
+  readonly displayName: string;
+  /** 翻译器简称，用于提示消息，如“百度” */
+  readonly shortName: string;
+  /** 翻译API名称，用于配置提示，如“百度翻译API” */
+  readonly apiName: string;
+  /** 配置项所在的设置节，如uliTranslation.baidu */
+  readonly configSection: string;
+  /** 必填凭据的说明，用于配置提示，如“APPID和密钥” */
+  readonly credentialHint: string;
+  /** 共享的翻译缓存实例，未设置时为null */
+  cache: TranslationCache | null;
+
+  /**
+   * 翻译文本
+   * @param text 要翻译的文本
+   * @param from 源语言
+   * @param to 目标语言
+   * @returns 翻译结果
+   */
+  translate(text: string, from?: string, to?: string): Promise<string>;
+
+  /**
+   * 翻译文本并返回术语命中等详情
+   * @param text 要翻译的文本
+   * @param from 源语言
+   * @param to 目标语言
+   * @returns 翻译结果详情
+   */
+  translateDetailed(text: string, from?: string, to?: string): Promise<TranslationResult>;
+
+  /**
+   * 检查翻译器是否支持指定的语言对
+   * @param from 源语言（规范语言代码）
+   * @param to 目标语言（规范语言代码）
+   * @returns 是否支持
+   */
+  supportsLanguagePair(from: string, to: string): boolean;
+
+  /**
+   * 识别文本的语言，只有提供语种识别API的翻译器实现该方法
+   * @param text 要识别的文本
+   * @returns 识别出的语言（规范语言代码）
+   */
+  detectLanguage?(text: string): Promise<string>;
+
+  /**
+   * 查询单词或短语的词典释义，只有提供词典资源的翻译器实现该方法
+   * @param text 要查询的单词或短语
+   * @param from 源语言（规范语言代码）
+   * @param to 目标语言（规范语言代码）
+   * @returns 词典释义，翻译API没有返回词典资源时返回undefined
+   */
+  lookupDictionary?(text: string, from: string, to: string): Promise<DictionaryEntry | undefined>;
+
+  /**
+   * 检查翻译API配置是否有效
+   * @returns 配置是否有效
+   */
+  isConfigValid(): boolean;
+
+  /**
+   * 从VSCode设置中重新加载配置
+   */
+  reloadConfig(): void;
+
+  /**
+   * 设置翻译器使用的缓存
+   * @param cache 所有翻译器共享的翻译缓存实例
+   */
+  setCache(cache: TranslationCache | null): void;
+
+  /**
+   * 设置翻译器使用的术语表
+   * @param glossary 工作区术语表实例
+   */
+  setGlossary(glossary: WorkspaceGlossary | null): void;
+
+  /**
+   * 获取该翻译器的缓存性能指标
+   * @returns 缓存性能指标，如果缓存未设置则返回null
+   */
+  getCacheMetrics(): TranslationCacheMetrics | null;
+}
+
+/**
+ * 翻译器抽象基类
+ *
+ * 实现了配置校验、文本长度检查、缓存查找、术语替换和缓存写入等公共流程，
+ * 子类只需实现配置加载和实际的API请求
+ */
+export abstract class BaseTranslator implements Translator {
+  public abstract readonly id: string;
+  public abstract readonly displayName: string;
+  public abstract readonly shortName: string;
+  public abstract readonly apiName: string;
+  public abstract readonly configSection: string;
+  public abstract readonly credentialHint: string;
+
+  /**
+   * 共享的翻译缓存实例
+   * 用于缓存翻译结果，减少API调用
+   */
+  public cache: TranslationCache | null = null;
+
+  /**
+   * 工作区术语表
+   * 翻译前将术语替换为占位标记，翻译后替换为规定的译文
+   */
+  protected glossary: WorkspaceGlossary | null = null;
+
+  /**
+   * 上次缓存访问时间
+   */
+  protected lastCacheAccessTime: number = 0;
+
+  /**
+   * 单次请求允许的最大文本长度
+   */
+  protected readonly maxTextLength: number = 2000;
+
+  /**
+   * 从VSCode配置中加载翻译API的配置
+   */
+  protected abstract loadConfig(): void;
+
+  /**
+   * 配置无效时抛出的错误信息
+   */
+  protected abstract getInvalidConfigMessage(): string;
+
+  /**
+   * 调用翻译API进行翻译
+   * @param text 要翻译的文本
+   * @param from 源语言（翻译API自己的语言代码）
+   * @param to 目标语言（翻译API自己的语言代码）
+   * @returns 翻译结果
+   */
+  protected abstract requestTranslation(text: string, from: string, to: string): Promise<string>;
+
+  /**
+   * 检查翻译API配置是否有效
+   * @returns 配置是否有效的布尔值
+   */
+  public abstract isConfigValid(): boolean;
+
+  /**
+   * 检查翻译器是否支持指定的语言对
+   * 默认只要源语言和目标语言都能映射为翻译API的语言代码即视为支持，
+   * 有语言对限制的翻译API需要重写该方法
+   *
+   * @param from 源语言（规范语言代码）
+   * @param to 目标语言（规范语言代码）
+   * @returns 是否支持
+   */
+  public supportsLanguagePair(from: string, to: string): boolean {
+    return (
+      from !== to &&
+      to !== AUTO_LANGUAGE &&
+      toProviderLanguage(this.id, from) !== undefined &&
+      toProviderLanguage(this.id, to) !== undefined
+    );
+  }
+
+  /**
+   * 术语是否交给翻译API的术语库处理
+   * 返回true时不在本地替换术语，默认返回false
+   *
+   * @returns 是否使用翻译API的术语库
+   */
+  protected usesRemoteGlossary(): boolean {
+    return false;
+  }
+
+  /**
+   * 设置翻译器使用的缓存
+   * @param cache 所有翻译器共享的翻译缓存实例
+   */
+  public setCache(cache: TranslationCache | null): void {
+    this.cache = cache;
+  }
+
+  /**
+   * 设置翻译器使用的术语表
+   * @param glossary 工作区术语表实例
+   */
+  public setGlossary(glossary: WorkspaceGlossary | null): void {
+    this.glossary = glossary;
+  }
+
+  /**
+   * 获取该翻译器的缓存性能指标
+   * @returns 缓存性能指标，如果缓存未设置则返回null
+   */
+  public getCacheMetrics(): TranslationCacheMetrics | null {
+    if (!this.cache) {
+      return null;
+    }
+    return this.cache.getMetrics(this.id);
+  }
+
+  /**
+   * 重新加载配置
+   * 从VSCode设置中重新加载翻译API的配置
+   */
+  public reloadConfig(): void {
+    this.loadConfig();
+  }
+
+  /**
+   * 翻译文本
+   *
+   * @param text 要翻译的文本（UTF-8编码）
+   * @param from 源语言，默认为auto（自动检测）
+   * @param to 目标语言，默认为zh（中文）
+   * @returns 翻译结果
+   * @throws Error 当配置无效、文本过长或API请求失败时抛出错误
+   */
+  public async translate(text: string, from: string = 'auto', to: string = 'zh'): Promise<string> {
+    return (await this.performTranslation(text, from, to)).text;
+  }
+
+  /**
+   * 翻译文本并返回术语命中等详情
+   *
+   * @param text 要翻译的文本（UTF-8编码）
+   * @param from 源语言，默认为auto（自动检测）
+   * @param to 目标语言，默认为zh（中文）
+   * @returns 翻译结果详情
+   * @throws Error 当配置无效、文本过长或API请求失败时抛出错误
+   */
+  public translateDetailed(text: string, from: string = 'auto', to: string = 'zh'): Promise<TranslationResult> {
+    return this.performTranslation(text, from, to);
+  }
+
+  /**
+   * 执行翻译
+   *
+   * 依次进行配置校验、长度检查和缓存查找，缓存未命中时将占位符、标记和术语替换为占位标记，
+   * 调用requestTranslation请求翻译API，再还原占位符、将术语替换为术语表规定的译文，并将结果写入缓存
+   *
+   * @param text 要翻译的文本
+   * @param from 源语言
+   * @param to 目标语言
+   * @returns 翻译结果详情
+   */
+  private async performTranslation(text: string, from: string, to: string): Promise<TranslationResult> {
+    // 重新加载配置，确保使用最新的配置
+    this.loadConfig();
+
+    // 检查配置是否有效
+    if (!this.isConfigValid()) {
+      throw new Error(this.getInvalidConfigMessage());
+    }
+
+    // 检查文本长度，翻译API对单次请求有字符限制
+    if (text.length > this.maxTextLength) {
+      throw new Error(`翻译文本过长，请将文本长度控制在${this.maxTextLength}字符以内`);
+    }
+
+    // 遮蔽占位符、HTML标签和行内代码，避免被翻译API破坏
+    const masker = new TextMasker();
+    const protectPlaceholders = vscode.workspace
+      .getConfiguration('uliTranslation')
+      .get<boolean>('protectPlaceholders', true);
+    const protectedText = protectPlaceholders ? masker.maskPlaceholders(text) : text;
+
+    // 替换术语，缓存命中时也需要命中的术语用于展示
+    const remoteGlossary = this.usesRemoteGlossary();
+    const { text: maskedText, hits: glossaryHits } = this.glossary && !remoteGlossary
+      ? this.glossary.apply(masker, protectedText, from, to)
+      : { text: protectedText, hits: [] };
+
+    // 检查缓存中是否有翻译结果
+    const cachedResult = this.lookupCache(text, from, to);
+    if (cachedResult) {
+      return { text: cachedResult, glossaryHits, remoteGlossary, lostPlaceholders: [], lostTerms: [] };
+    }
+
+    // 原文全部由占位符和术语组成时无需调用翻译API
+    const onlyTokens = masker.getSegments().length > 0 && isOnlyTokens(maskedText);
+    const response = onlyTokens ? maskedText : await this.requestTranslationFor(maskedText, from, to);
+
+    // 还原占位符，并将术语替换为术语表规定的译文
+    const { text: translatedText, missing } = masker.unmask(response);
+    const lostPlaceholders = missing
+      .filter(segment => segment.kind === 'placeholder')
+      .map(segment => segment.original);
+    // 同一术语出现多次时，只要有一处没有还原就视为没有使用规定的译文
+    const lostSources = new Set(missing.filter(segment => segment.kind === 'term').map(segment => segment.original));
+    const lostTerms = glossaryHits.filter(hit => lostSources.has(hit.source));
+    const appliedHits = glossaryHits.filter(hit => !lostSources.has(hit.source));
+
+    // 将翻译结果存入缓存，丢失了占位符或术语的翻译结果不可靠，不写入缓存，避免之后命中缓存时继续使用错误的译文
+    if (lostPlaceholders.length > 0) {
+      console.warn(`翻译结果中丢失了占位符: ${lostPlaceholders.join('、')}`);
+    }
+    if (lostTerms.length > 0) {
+      console.warn(`翻译结果中丢失了术语占位标记: ${lostTerms.map(hit => hit.source).join('、')}`);
+    }
+    if (lostPlaceholders.length === 0 && lostTerms.length === 0 && this.cache) {
+      this.cache.set(text, translatedText, from, to, this.id);
+      console.log('翻译结果已缓存');
+    }
+
+    return { text: translatedText, glossaryHits: appliedHits, remoteGlossary, lostPlaceholders, lostTerms };
+  }
+
+  /**
+   * 检查语言对并将规范语言代码转换为翻译API的语言代码后请求翻译
+   * 不支持的语言对在发送请求前拒绝，并允许切换到其他翻译器
+   *
+   * @param text 要翻译的文本
+   * @param from 源语言（规范语言代码）
+   * @param to 目标语言（规范语言代码）
+   * @returns 翻译结果
+   * @throws TranslationError 当翻译器不支持该语言对时抛出可重试的错误
+   */
+  private requestTranslationFor(text: string, from: string, to: string): Promise<string> {
+    if (!this.supportsLanguagePair(from, to)) {
+      throw new TranslationError(
+        `${this.displayName}不支持从${getLanguageName(from)}翻译为${getLanguageName(to)}`,
+        this.id,
+        'UnsupportedLanguagePair',
+        true
+      );
+    }
+    return this.requestTranslation(text, toProviderLanguage(this.id, from)!, toProviderLanguage(this.id, to)!);
+  }
+
+  /**
+   * 从缓存中查找翻译结果
+   * 开启uliTranslation.cache.shareAcrossProviders时接受其他翻译器缓存的结果，
+   * 缓存响应时间超过500ms时提示用户清空缓存
+   *
+   * @param text 原文
+   * @param from 源语言
+   * @param to 目标语言
+   * @returns 缓存的翻译结果，未命中时返回null
+   */
+  private lookupCache(text: string, from: string, to: string): string | null {
+    if (!this.cache) {
+      return null;
+    }
+
+    const startTime = Date.now();
+    this.lastCacheAccessTime = startTime;
+
+    // 是否接受其他翻译器缓存的结果
+    const shareAcrossProviders = vscode.workspace
+      .getConfiguration('uliTranslation.cache')
+      .get<boolean>('shareAcrossProviders', true);
+    const lookupOptions = {
+      provider: shareAcrossProviders ? undefined : this.id,
+      requester: this.id
+    };
+
+    const cachedEntry = this.cache.get(text, from, to, lookupOptions);
+    if (cachedEntry) {
+      const responseTime = Date.now() - startTime;
+      if (responseTime > 500) {
+        console.warn(`缓存响应时间过长: ${responseTime}ms，考虑清空缓存以提高性能`);
+        // 提示用户清空缓存
+        vscode.window.showWarningMessage(
+          `翻译缓存响应时间过长(${responseTime.toFixed(0)}ms)，影响使用体验。`,
+          '清空缓存',
+          '查看性能指标',
+          '忽略'
+        ).then(selection => {
+          if (selection === '清空缓存') {
+            if (this.cache) {
+              this.cache.clear();
+              vscode.window.showInformationMessage('翻译缓存已清空，性能已恢复');
+            }
+          } else if (selection === '查看性能指标') {
+            vscode.commands.executeCommand('uli-translation.showCacheMetrics');
+          }
+        });
+      } else {
+        console.log(`使用${cachedEntry.provider}缓存的翻译结果，响应时间: ${responseTime}ms`);
+      }
+      return cachedEntry.result;
+    }
+
+    return null;
+  }
+}
@@ -4,7 +4,7 @@
  * 该文件包含插件使用的各种工具函数，包括文本格式化、HTML转义等
  * 
  * @author uli
- * @version 1.1.0
+ * @version 1.2.0
  */
 
 /**
@@ -32,23 +32,167 @@ export function escapeHtml(text: string): string {
     .replace(/'/g, '&#039;'); // 替换单引号
 }
 
+/**
+ * 默认识别的缩写词
+ */
+export const DEFAULT_ACRONYMS: readonly string[] = ['ID', 'URL', 'HTTP', 'API'];
+
+/**
+ * 格式转换选项
+ *
+ * @property acronyms - 识别的缩写词，在驼峰和首字母大写的格式中保持全大写（如userID、HTTPRequest），
+ *                      并用于拆分连续的大写字母（如XMLHTTP拆分为XML和HTTP），不区分大小写
+ */
+export interface CaseOptions {
+  acronyms?: readonly string[];
+}
+
+/**
+ * 未指定缩写词时使用的缩写词，保存为大写
+ */
+let defaultAcronyms = new Set(DEFAULT_ACRONYMS);
+
+/**
+ * 设置格式转换默认使用的缩写词
+ * @param acronyms 缩写词
+ */
+export function setDefaultAcronyms(acronyms: readonly string[]): void {
+  defaultAcronyms = new Set(acronyms.map(acronym => acronym.trim().toUpperCase()).filter(acronym => acronym));
+}
+
+/**
+ * 匹配单词的正则表达式，按顺序尝试：
+ * 1. 复数形式的缩写（如IDs、URLs）
+ * 2. 后面紧跟首字母大写单词的连续大写字母（如XMLHttp中的XML）
+ * 3. 小写或首字母大写的单词、连续的大写字母，紧随其后的数字属于该单词（如base64、HTML5）
+ * 4. 以数字开头的单词，包含紧随其后的小写字母或缩写（如2nd、3D）
+ * 5. 没有大小写之分的文字（如中文、日文）
+ */
+const WORD_PATTERN = /\p{Lu}{2,}s(?!\p{Ll})|\p{Lu}+(?=\p{Lu}\p{Ll})|(?:\p{Lu}?\p{Ll}+|\p{Lu}+)\d*|\d+(?:\p{Lu}+(?!\p{Ll})|\p{Ll}+)?|[\p{Lo}\p{Lm}]+/gu;
+
+/**
+ * 将连续的大写字母按缩写词拆分
+ * 只有拆分出的每一部分都至少包含两个字母时才拆分，避免将IDS拆分为ID和S
+ *
+ * @param word 全大写的单词
+ * @param acronyms 大写的缩写词
+ * @returns 拆分后的单词
+ * @example
+ * // 返回: ["XML", "HTTP"]（缩写词包含HTTP时）
+ * splitAcronyms("XMLHTTP", acronyms);
+ */
+function splitAcronyms(word: string, acronyms: ReadonlySet<string>): string[] {
+  const parts: string[] = [];
+  let unknown = '';
+  let index = 0;
+  while (index < word.length) {
+    let match = '';
+    for (const acronym of acronyms) {
+      if (acronym.length > match.length && word.startsWith(acronym, index)) {
+        match = acronym;
+      }
+    }
+    if (match) {
+      if (unknown) {
+        parts.push(unknown);
+        unknown = '';
+      }
+      parts.push(match);
+      index += match.length;
+    } else {
+      unknown += word[index];
+      index++;
+    }
+  }
+  if (unknown) {
+    parts.push(unknown);
+  }
+  return parts.length > 1 && parts.every(part => part.length >= 2) ? parts : [word];
+}
+
+/**
+ * 获取格式转换使用的缩写词
+ * @param options 格式转换选项
+ * @returns 大写的缩写词
+ */
+function getAcronyms(options: CaseOptions): ReadonlySet<string> {
+  return options.acronyms
+    ? new Set(options.acronyms.map(acronym => acronym.toUpperCase()))
+    : defaultAcronyms;
+}
+
+/**
+ * 将文本拆分为单词，所有格式转换都基于该函数
+ *
+ * - 空格、标点和符号（包括_、-、.、/）都作为分隔符，单词中的撇号会被去掉（如user's转为users）
+ * - 小写字母后的大写字母开始新单词（如fooBar），连续的大写字母在首字母大写的单词前结束（如XMLHttp拆分为XML和Http）
+ * - 数字跟在字母后时属于前一个单词（如base64、HTML5），数字之后的首字母大写单词开始新单词（如Base64Encode）；
+ *   以数字开头的单词包含紧随其后的小写字母或缩写（如2nd、3D）
+ * - 全角字符转换为半角字符，去掉字母上的重音符号（如café转为cafe）；中文等没有大小写之分的文字按连续的片段拆分
+ *
+ * @param text 需要拆分的文本
+ * @param options 格式转换选项
+ * @returns 单词列表，保持原来的大小写
+ * @example
+ * // 返回: ["XML", "Http", "Request", "2"]
+ * splitWords("XMLHttpRequest_2");
+ */
+export function splitWords(text: string, options: CaseOptions = {}): string[] {
+  if (!text) {
+    return [];
+  }
+
+  const acronyms = getAcronyms(options);
+  const normalized = text
+    .normalize('NFKC')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .replace(/(\p{L})['’](\p{L})/gu, '$1$2');
+
+  const words: string[] = [];
+  for (const match of normalized.matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    if (/^\p{Lu}{3,}$/u.test(word)) {
+      words.push(...splitAcronyms(word, acronyms));
+    } else {
+      words.push(word);
+    }
+  }
+  return words;
+}
+
+/**
+ * 将单词转换为首字母大写，缩写词转换为全大写
+ * @param word 单词
+ * @param acronyms 大写的缩写词
+ * @returns 转换后的单词
+ */
+function capitalize(word: string, acronyms: ReadonlySet<string>): string {
+  const upper = word.toUpperCase();
+  if (acronyms.has(upper)) {
+    return upper;
+  }
+  // 复数形式的缩写词（如ids、IDs）只将缩写部分转为大写
+  if (word.endsWith('s') && acronyms.has(upper.slice(0, -1))) {
+    return `${upper.slice(0, -1)}s`;
+  }
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
 /**
  * 将文本转换为小驼峰格式
- * 例如："hello world" -> "helloWorld"
+ * 例如："hello world" -> "helloWorld"，"user id" -> "userID"
  * 
  * @param text 需要转换的文本
+ * @param options 格式转换选项
  * @returns 小驼峰格式的文本
  */
-export function toCamelCase(text: string): string {
-  if (!text) {
-    return '';
-  }
-  
-  // 先将文本按空格、连字符、下划线等分割成单词
-  return text
-    .replace(/[\s-_]+(.)/g, (_, c) => c.toUpperCase())
-    .replace(/[\s-_]+/g, '')
-    .replace(/^[A-Z]/, c => c.toLowerCase());
+export function toCamelCase(text: string, options: CaseOptions = {}): string {
+  const acronyms = getAcronyms(options);
+  return splitWords(text, options)
+    .map((word, index) => (index === 0 ? word.toLowerCase() : capitalize(word, acronyms)))
+    .join('');
 }
 
 /**
@@ -56,36 +200,24 @@ export function toCamelCase(text: string): string {
  * 例如："hello world" -> "HelloWorld"
  * 
  * @param text 需要转换的文本
+ * @param options 格式转换选项
  * @returns 大驼峰格式的文本
  */
-export function toPascalCase(text: string): string {
-  if (!text) {
-    return '';
-  }
-  
-  // 先转换为小驼峰，然后将首字母大写
-  return toCamelCase(text).replace(/^[a-z]/, c => c.toUpperCase());
+export function toPascalCase(text: string, options: CaseOptions = {}): string {
+  const acronyms = getAcronyms(options);
+  return splitWords(text, options).map(word => capitalize(word, acronyms)).join('');
 }
 
 /**
  * 将文本转换为下划线格式
- * 例如："hello world" -> "hello_world"
+ * 例如："hello world" -> "hello_world"，"XMLHttpRequest" -> "xml_http_request"
  * 
  * @param text 需要转换的文本
+ * @param options 格式转换选项
  * @returns 下划线格式的文本
  */
-export function toSnakeCase(text: string): string {
-  if (!text) {
-    return '';
-  }
-  
-  return text
-    .replace(/\s+/g, '_')
-    .replace(/-/g, '_')
-    .replace(/([A-Z])/g, '_$1')
-    .toLowerCase()
-    .replace(/^_/, '')
-    .replace(/_+/g, '_');
+export function toSnakeCase(text: string, options: CaseOptions = {}): string {
+  return splitWords(text, options).map(word => word.toLowerCase()).join('_');
 }
 
 /**
@@ -93,41 +225,48 @@ export function toSnakeCase(text: string): string {
  * 例如："hello world" -> "hello-world"
  * 
  * @param text 需要转换的文本
+ * @param options 格式转换选项
  * @returns 小写中划线格式的文本
  */
-export function toKebabCase(text: string): string {
-  if (!text) {
-    return '';
-  }
-  
-  return text
-    .replace(/\s+/g, '-')
-    .replace(/_/g, '-')
-    .replace(/([A-Z])/g, '-$1')
-    .toLowerCase()
-    .replace(/^-/, '')
-    .replace(/-+/g, '-');
+export function toKebabCase(text: string, options: CaseOptions = {}): string {
+  return splitWords(text, options).map(word => word.toLowerCase()).join('-');
 }
 
 /**
- * 将文本转换为首字母大写中划线格式
+ * 将文本转换为首字母大写中划线格式（Train-Case）
  * 例如："hello world" -> "Hello-World"
  * 
  * @param text 需要转换的文本
+ * @param options 格式转换选项
  * @returns 首字母大写中划线格式的文本
  */
-export function toUpperKebabCase(text: string): string {
-  if (!text) {
-    return '';
-  }
-  
-  // 先转换为小写中划线格式
-  const kebabText = toKebabCase(text);
-  
-  // 将每个单词的首字母大写
-  return kebabText.split('-')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join('-');
+export function toTrainCase(text: string, options: CaseOptions = {}): string {
+  const acronyms = getAcronyms(options);
+  return splitWords(text, options).map(word => capitalize(word, acronyms)).join('-');
+}
+
+/**
+ * 将文本转换为首字母大写中划线格式，与{@link toTrainCase}相同
+ * 例如："hello world" -> "Hello-World"
+ * 
+ * @param text 需要转换的文本
+ * @param options 格式转换选项
+ * @returns 首字母大写中划线格式的文本
+ */
+export function toUpperKebabCase(text: string, options: CaseOptions = {}): string {
+  return toTrainCase(text, options);
+}
+
+/**
+ * 将文本转换为全大写中划线格式
+ * 例如："hello world" -> "HELLO-WORLD"
+ * 
+ * @param text 需要转换的文本
+ * @param options 格式转换选项
+ * @returns 全大写中划线格式的文本
+ */
+export function toScreamingKebabCase(text: string, options: CaseOptions = {}): string {
+  return splitWords(text, options).map(word => word.toUpperCase()).join('-');
 }
 
 /**
@@ -135,18 +274,11 @@ export function toUpperKebabCase(text: string): string {
  * 例如："hello world" -> "hello world"
  * 
  * @param text 需要转换的文本
+ * @param options 格式转换选项
  * @returns 小写分词格式的文本
  */
-export function toLowerWords(text: string): string {
-  if (!text) {
-    return '';
-  }
-  
-  return text
-    .replace(/([A-Z])/g, ' $1')
-    .replace(/[\s-_]+/g, ' ')
-    .toLowerCase()
-    .trim();
+export function toLowerWords(text: string, options: CaseOptions = {}): string {
+  return splitWords(text, options).map(word => word.toLowerCase()).join(' ');
 }
 
 /**
@@ -154,15 +286,12 @@ export function toLowerWords(text: string): string {
  * 例如："hello world" -> "Hello World"
  * 
  * @param text 需要转换的文本
+ * @param options 格式转换选项
  * @returns 首字母大写分词格式的文本
  */
-export function toTitleWords(text: string): string {
-  if (!text) {
-    return '';
-  }
-  
-  return toLowerWords(text)
-    .replace(/\b\w/g, c => c.toUpperCase());
+export function toTitleWords(text: string, options: CaseOptions = {}): string {
+  const acronyms = getAcronyms(options);
+  return splitWords(text, options).map(word => capitalize(word, acronyms)).join(' ');
 }
 
 /**
@@ -170,12 +299,78 @@ export function toTitleWords(text: string): string {
  * 例如："hello world" -> "HELLO_WORLD"
  * 
  * @param text 需要转换的文本
+ * @param options 格式转换选项
  * @returns 常量格式的文本
  */
-export function toConstantCase(text: string): string {
-  if (!text) {
-    return '';
-  }
-  
-  return toSnakeCase(text).toUpperCase();
-}
\ No newline at end of file
+export function toConstantCase(text: string, options: CaseOptions = {}): string {
+  return splitWords(text, options).map(word => word.toUpperCase()).join('_');
+}
+
+/**
+ * 将文本转换为点分格式
+ * 例如："hello world" -> "hello.world"
+ * 
+ * @param text 需要转换的文本
+ * @param options 格式转换选项
+ * @returns 点分格式的文本
+ */
+export function toDotCase(text: string, options: CaseOptions = {}): string {
+  return splitWords(text, options).map(word => word.toLowerCase()).join('.');
+}
+
+/**
+ * 将文本转换为路径格式
+ * 例如："hello world" -> "hello/world"
+ * 
+ * @param text 需要转换的文本
+ * @param options 格式转换选项
+ * @returns 路径格式的文本
+ */
+export function toPathCase(text: string, options: CaseOptions = {}): string {
+  return splitWords(text, options).map(word => word.toLowerCase()).join('/');
+}
+
+/**
+ * 将文本转换为全小写无分隔格式
+ * 例如："hello world" -> "helloworld"
+ * 
+ * @param text 需要转换的文本
+ * @param options 格式转换选项
+ * @returns 全小写无分隔格式的文本
+ */
+export function toFlatCase(text: string, options: CaseOptions = {}): string {
+  return splitWords(text, options).map(word => word.toLowerCase()).join('');
+}
+
+/**
+ * 命名格式
+ *
+ * @property id - 格式标识
+ * @property label - 格式名称，显示在翻译结果的选项中
+ * @property format - 格式化函数
+ * @property identifier - 格式化结果是否可以作为标识符（不包含空格、点和斜杠）
+ */
+export interface NamingFormat {
+  id: string;
+  label: string;
+  format: (text: string) => string;
+  identifier: boolean;
+}
+
+/**
+ * 支持的命名格式，按在翻译结果中显示的顺序排列
+ */
+export const NAMING_FORMATS: NamingFormat[] = [
+  { id: 'camelCase', label: '驼峰格式(小) camelCase', format: toCamelCase, identifier: true },
+  { id: 'PascalCase', label: '驼峰格式(大) PascalCase', format: toPascalCase, identifier: true },
+  { id: 'snake_case', label: '下划线格式 snake_case', format: toSnakeCase, identifier: true },
+  { id: 'kebab-case', label: '中划线格式(小) kebab-case', format: toKebabCase, identifier: true },
+  { id: 'Kebab-Case', label: '中划线格式(大) Train-Case', format: toTrainCase, identifier: true },
+  { id: 'SCREAMING-KEBAB-CASE', label: '中划线格式(全大写) SCREAMING-KEBAB-CASE', format: toScreamingKebabCase, identifier: true },
+  { id: 'lowerWords', label: '分词格式(小) lower words', format: toLowerWords, identifier: false },
+  { id: 'TitleWords', label: '分词格式(大) Title Words', format: toTitleWords, identifier: false },
+  { id: 'CONSTANT_CASE', label: '常量格式 CONSTANT_CASE', format: toConstantCase, identifier: true },
+  { id: 'flatcase', label: '全小写格式 flatcase', format: toFlatCase, identifier: true },
+  { id: 'dot.case', label: '点分格式 dot.case', format: toDotCase, identifier: false },
+  { id: 'path/case', label: '路径格式 path/case', format: toPathCase, identifier: false }
+];
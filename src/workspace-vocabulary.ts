@@ -0,0 +1,136 @@
+/**
+ * 工作区词汇模块
+ *
+ * 统计工作区源代码的标识符中每个单词出现的次数（如getUserName计为get、user、name各一次），
+ * 用于按项目中已有的用词为候选名称排序。首次使用时才扫描工作区，文件保存、创建或删除后在下次使用时重新统计
+ *
+ * @author uli
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { splitWords } from './utils';
+
+/**
+ * 统计的源代码文件
+ */
+const SOURCE_GLOB = '**/*.{ts,tsx,js,jsx,mjs,cjs,vue,svelte,py,java,kt,scala,groovy,go,rs,cs,rb,php,swift,dart,lua,c,cc,cpp,h,hpp}';
+
+/**
+ * 不统计的目录
+ */
+const EXCLUDE_GLOB = '**/{node_modules,dist,out,build,target,vendor,.git}/**';
+
+/**
+ * 最多统计的文件数量
+ */
+const MAX_FILES = 500;
+
+/**
+ * 单个文件的大小上限（字节），超出时跳过，通常是生成或压缩后的文件
+ */
+const MAX_FILE_SIZE = 256 * 1024;
+
+/**
+ * 两次重新统计之间的最短间隔（毫秒）
+ */
+const REBUILD_INTERVAL = 60 * 1000;
+
+/**
+ * 匹配标识符的正则表达式
+ */
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]{2,}/g;
+
+/**
+ * 工作区词汇
+ */
+export class WorkspaceVocabulary implements vscode.Disposable {
+  // 单词（小写）出现的次数
+  private counts = new Map<string, number>();
+  // 正在进行的统计
+  private building: Promise<Map<string, number>> | undefined;
+  // 上次统计完成的时间，尚未统计时为0
+  private builtAt = 0;
+  // 统计之后工作区文件是否有变化
+  private dirty = true;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    const markDirty = () => {
+      this.dirty = true;
+    };
+    this.disposables.push(
+      vscode.workspace.onDidSaveTextDocument(markDirty),
+      vscode.workspace.onDidCreateFiles(markDirty),
+      vscode.workspace.onDidDeleteFiles(markDirty)
+    );
+  }
+
+  /**
+   * 获取单词在工作区标识符中出现的次数
+   * 文件有变化且距上次统计超过一分钟时重新统计
+   *
+   * @returns 单词（小写）出现的次数
+   */
+  public getCounts(): Promise<Map<string, number>> {
+    if (this.building) {
+      return this.building;
+    }
+    if (!this.dirty || Date.now() - this.builtAt < REBUILD_INTERVAL) {
+      return Promise.resolve(this.counts);
+    }
+
+    this.dirty = false;
+    this.building = this.build()
+      .then(counts => {
+        this.counts = counts;
+        this.builtAt = Date.now();
+        return counts;
+      }, error => {
+        console.warn(`统计工作区词汇失败: ${error instanceof Error ? error.message : error}`);
+        return this.counts;
+      })
+      .finally(() => {
+        this.building = undefined;
+      });
+    return this.building;
+  }
+
+  /**
+   * 扫描工作区源代码文件并统计单词
+   * @returns 单词（小写）出现的次数
+   */
+  private async build(): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (!vscode.workspace.workspaceFolders?.length) {
+      return counts;
+    }
+
+    const decoder = new TextDecoder();
+    const files = await vscode.workspace.findFiles(SOURCE_GLOB, EXCLUDE_GLOB, MAX_FILES);
+    for (const file of files) {
+      let content: Uint8Array;
+      try {
+        content = await vscode.workspace.fs.readFile(file);
+      } catch {
+        continue;
+      }
+      if (content.byteLength > MAX_FILE_SIZE) {
+        continue;
+      }
+      for (const identifier of decoder.decode(content).match(IDENTIFIER_PATTERN) ?? []) {
+        for (const word of splitWords(identifier)) {
+          const key = word.toLowerCase();
+          if (key.length >= 2) {
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+          }
+        }
+      }
+    }
+    return counts;
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}